@@ -2,13 +2,30 @@ import { aql } from "./aql-query";
 import { CollectionType } from "./collection";
 import { Config } from "./connection";
 import { Database } from "./database";
-import { ArangoError } from "./error";
+import {
+  AbortError,
+  ArangoError,
+  QueueFullError,
+  QueueTimeoutError
+} from "./error";
+import { createTracingInterceptor } from "./instrumentation";
+import { formatPrometheusMetrics } from "./metrics";
 
 export default function arangojs(config: Config) {
   return new Database(config);
 }
 
-Object.assign(arangojs, { CollectionType, ArangoError, Database, aql });
+Object.assign(arangojs, {
+  CollectionType,
+  AbortError,
+  ArangoError,
+  QueueFullError,
+  QueueTimeoutError,
+  Database,
+  aql,
+  createTracingInterceptor,
+  formatPrometheusMetrics
+});
 export { DocumentCollection, EdgeCollection } from "./collection";
 export { Graph } from "./graph";
-export { Database, aql };
+export { Database, aql, createTracingInterceptor, formatPrometheusMetrics };
@@ -1,6 +1,14 @@
+import { Readable } from "stream";
 import { Connection, RequestOptions } from "./connection";
 import { ArrayCursor } from "./cursor";
 import { isArangoError } from "./error";
+import { ArangoJob, AsyncJobOptions, createJob } from "./job";
+import { DocumentLoader, DocumentLoaderOptions } from "./loader";
+import {
+  DocumentCache,
+  DocumentCacheOptions,
+  DocumentCacheStats
+} from "./util/documentCache";
 import {
   CollectionChecksum,
   CollectionFigures,
@@ -16,7 +24,8 @@ import {
   RemoveOptions,
   ReplaceOptions,
   UpdateByExampleOptions,
-  UpdateOptions
+  UpdateOptions,
+  UpdateWithRetryOptions
 } from "./util/types";
 
 export enum CollectionType {
@@ -61,6 +70,7 @@ export interface ImportResult {
 export interface DocumentReadOptions {
   graceful?: boolean;
   allowDirtyRead?: boolean;
+  signal?: AbortSignal;
 }
 
 export function isArangoCollection(
@@ -76,6 +86,8 @@ export interface ArangoCollection {
 
 export const DOCUMENT_NOT_FOUND = 1202;
 export const COLLECTION_NOT_FOUND = 1203;
+const NOT_MODIFIED = 304;
+const PRECONDITION_FAILED = 412;
 
 export abstract class BaseCollection<T extends object = any>
   implements ArangoCollection {
@@ -84,6 +96,7 @@ export abstract class BaseCollection<T extends object = any>
   abstract type: CollectionType;
   protected _idPrefix: string;
   protected _connection: Connection;
+  protected _cache?: DocumentCache;
 
   constructor(connection: Connection, name: string) {
     this.name = name;
@@ -116,6 +129,28 @@ export abstract class BaseCollection<T extends object = any>
     return documentHandle;
   }
 
+  protected _invalidate<R>(
+    result: Promise<R>,
+    documentHandle?: DocumentHandle
+  ): Promise<R> {
+    if (!this._cache) return result;
+    const invalidate = () => {
+      if (!this._cache) return;
+      if (documentHandle === undefined) this._cache.clear();
+      else this._cache.delete(this._documentHandle(documentHandle));
+    };
+    return result.then(
+      value => {
+        invalidate();
+        return value;
+      },
+      err => {
+        invalidate();
+        throw err;
+      }
+    );
+  }
+
   protected _indexHandle(indexHandle: IndexHandle) {
     if (typeof indexHandle !== "string") {
       if (indexHandle.id) {
@@ -240,6 +275,7 @@ export abstract class BaseCollection<T extends object = any>
     );
     this.name = name;
     this._idPrefix = `${name}/`;
+    if (this._cache) this._cache.clear();
     return result;
   }
 
@@ -247,18 +283,32 @@ export abstract class BaseCollection<T extends object = any>
     return this._put("rotate", undefined);
   }
 
-  truncate() {
-    return this._put("truncate", undefined);
+  truncate(): Promise<any>;
+  truncate(opts: AsyncJobOptions<"store">): Promise<ArangoJob>;
+  truncate(opts: AsyncJobOptions<true>): Promise<undefined>;
+  truncate(opts?: AsyncJobOptions): Promise<any> {
+    if (opts && opts.async) {
+      return this._invalidate(
+        createJob(
+          this._connection,
+          { method: "PUT", path: `/_api/collection/${this.name}/truncate` },
+          opts.async
+        )
+      );
+    }
+    return this._invalidate(this._put("truncate", undefined));
   }
 
   drop(opts?: any) {
-    return this._connection.request(
-      {
-        method: "DELETE",
-        path: `/_api/collection/${this.name}`,
-        qs: opts
-      },
-      res => res.body
+    return this._invalidate(
+      this._connection.request(
+        {
+          method: "DELETE",
+          path: `/_api/collection/${this.name}`,
+          qs: opts
+        },
+        res => res.body
+      )
     );
   }
 
@@ -305,11 +355,26 @@ export abstract class BaseCollection<T extends object = any>
     if (typeof opts === "boolean") {
       opts = { graceful: opts };
     }
-    const { allowDirtyRead = undefined, graceful = false } = opts;
-    const result = this._connection.request(
-      { path: `/_api/${this._documentPath(documentHandle)}`, allowDirtyRead },
-      res => res.body
-    );
+    const {
+      allowDirtyRead = undefined,
+      graceful = false,
+      signal = undefined
+    } = opts;
+    const result = this._cache
+      ? this._cachedDocument(
+          this._cache,
+          documentHandle,
+          allowDirtyRead,
+          signal
+        )
+      : this._connection.request(
+          {
+            path: `/_api/${this._documentPath(documentHandle)}`,
+            allowDirtyRead,
+            signal
+          },
+          res => res.body
+        );
     if (!graceful) return result;
     return result.catch(err => {
       if (isArangoError(err) && err.errorNum === DOCUMENT_NOT_FOUND) {
@@ -319,6 +384,57 @@ export abstract class BaseCollection<T extends object = any>
     });
   }
 
+  protected _cachedDocument(
+    cache: DocumentCache,
+    documentHandle: DocumentHandle,
+    allowDirtyRead?: boolean,
+    signal?: AbortSignal
+  ): Promise<Document<T>> {
+    const id = this._documentHandle(documentHandle);
+    const cached = cache.get(id);
+    if (cached && cache.isFresh(cached)) {
+      cache.record("hits");
+      return Promise.resolve(JSON.parse(cached.json));
+    }
+    const result = this._connection.request(
+      {
+        path: `/_api/${this._documentPath(documentHandle)}`,
+        headers: cached ? { "if-none-match": `"${cached.rev}"` } : undefined,
+        allowDirtyRead,
+        signal
+      },
+      res => {
+        if (res.statusCode === NOT_MODIFIED && cached) {
+          cache.record("revalidations");
+          cache.revalidate(cached);
+          return JSON.parse(cached.json);
+        }
+        cache.record("misses");
+        cache.set(id, res.body);
+        return res.body;
+      }
+    );
+    result.catch(err => {
+      if (isArangoError(err) && err.errorNum === DOCUMENT_NOT_FOUND) {
+        cache.delete(id);
+      }
+    });
+    return result;
+  }
+
+  useCache(options?: DocumentCacheOptions | false): this {
+    this._cache = options === false ? undefined : new DocumentCache(options);
+    return this;
+  }
+
+  getCacheStats(): DocumentCacheStats | undefined {
+    return this._cache && this._cache.getStats();
+  }
+
+  loader(options?: DocumentLoaderOptions): DocumentLoader<T> {
+    return new DocumentLoader<T>(this._connection, this.name, options);
+  }
+
   replace(
     documentHandle: DocumentHandle,
     newValue: Object | Array<Object>,
@@ -328,20 +444,26 @@ export abstract class BaseCollection<T extends object = any>
     if (typeof opts === "string") {
       opts = { rev: opts };
     }
+    let signal: AbortSignal | undefined;
+    ({ signal, ...opts } = opts);
     if (opts.rev && this._connection.arangoMajor >= 3) {
       let rev: string | undefined;
       ({ rev, ...opts } = opts);
       headers["if-match"] = rev!;
     }
-    return this._connection.request(
-      {
-        method: "PUT",
-        path: `/_api/${this._documentPath(documentHandle)}`,
-        body: newValue,
-        qs: opts,
-        headers
-      },
-      res => res.body
+    return this._invalidate(
+      this._connection.request(
+        {
+          method: "PUT",
+          path: `/_api/${this._documentPath(documentHandle)}`,
+          body: newValue,
+          qs: opts,
+          headers,
+          signal
+        },
+        res => res.body
+      ),
+      documentHandle
     );
   }
 
@@ -354,32 +476,70 @@ export abstract class BaseCollection<T extends object = any>
     if (typeof opts === "string") {
       opts = { rev: opts };
     }
+    let signal: AbortSignal | undefined;
+    ({ signal, ...opts } = opts);
     if (opts.rev && this._connection.arangoMajor >= 3) {
       let rev: string | undefined;
       ({ rev, ...opts } = opts);
       headers["if-match"] = rev!;
     }
-    return this._connection.request(
-      {
-        method: "PATCH",
-        path: `/_api/${this._documentPath(documentHandle)}`,
-        body: newValue,
-        qs: opts,
-        headers
-      },
-      res => res.body
+    return this._invalidate(
+      this._connection.request(
+        {
+          method: "PATCH",
+          path: `/_api/${this._documentPath(documentHandle)}`,
+          body: newValue,
+          qs: opts,
+          headers,
+          signal
+        },
+        res => res.body
+      ),
+      documentHandle
     );
   }
 
+  async updateWithRetry(
+    documentHandle: DocumentHandle,
+    fn: (document: Document<T>) => DocumentData<T> | Promise<DocumentData<T>>,
+    opts: UpdateWithRetryOptions = {}
+  ): Promise<Document<T>> {
+    const { retries = 5, signal = undefined, ...qs } = opts;
+    for (let attempt = 0; ; attempt++) {
+      const document = await this.document(documentHandle, { signal });
+      const newValue = await fn(document);
+      try {
+        const result = await this.replace(documentHandle, newValue, {
+          ...qs,
+          rev: document._rev,
+          ignoreRevs: false,
+          returnNew: true,
+          signal
+        });
+        return result.new;
+      } catch (err) {
+        if (
+          attempt >= retries ||
+          !isArangoError(err) ||
+          err.statusCode !== PRECONDITION_FAILED
+        ) {
+          throw err;
+        }
+      }
+    }
+  }
+
   bulkUpdate(newValues: Object | Array<Object>, opts?: any) {
-    return this._connection.request(
-      {
-        method: "PATCH",
-        path: `/_api/document/${this.name}`,
-        body: newValues,
-        qs: opts
-      },
-      res => res.body
+    return this._invalidate(
+      this._connection.request(
+        {
+          method: "PATCH",
+          path: `/_api/document/${this.name}`,
+          body: newValues,
+          qs: opts
+        },
+        res => res.body
+      )
     );
   }
 
@@ -388,19 +548,25 @@ export abstract class BaseCollection<T extends object = any>
     if (typeof opts === "string") {
       opts = { rev: opts };
     }
+    let signal: AbortSignal | undefined;
+    ({ signal, ...opts } = opts);
     if (opts.rev && this._connection.arangoMajor >= 3) {
       let rev: string | undefined;
       ({ rev, ...opts } = opts);
       headers["if-match"] = rev!;
     }
-    return this._connection.request(
-      {
-        method: "DELETE",
-        path: `/_api/${this._documentPath(documentHandle)}`,
-        qs: opts,
-        headers
-      },
-      res => res.body
+    return this._invalidate(
+      this._connection.request(
+        {
+          method: "DELETE",
+          path: `/_api/${this._documentPath(documentHandle)}`,
+          qs: opts,
+          headers,
+          signal
+        },
+        res => res.body
+      ),
+      documentHandle
     );
   }
 
@@ -439,6 +605,23 @@ export abstract class BaseCollection<T extends object = any>
     );
   }
 
+  export(opts?: any) {
+    return this._connection.request(
+      {
+        method: "POST",
+        path: "/_api/export",
+        qs: { collection: this.name },
+        body: opts
+      },
+      res => new ArrayCursor(this._connection, res.body, res.arangojsHostId)
+    );
+  }
+
+  async exportStream(opts?: any): Promise<Readable | ReadableStream> {
+    const cursor = await this.export(opts);
+    return cursor.stream();
+  }
+
   any() {
     return this._connection.request(
       {
@@ -514,17 +697,19 @@ export abstract class BaseCollection<T extends object = any>
   }
 
   removeByExample(example: any, opts?: RemoveByExampleOptions) {
-    return this._connection.request(
-      {
-        method: "PUT",
-        path: "/_api/simple/remove-by-example",
-        body: {
-          ...opts,
-          example,
-          collection: this.name
-        }
-      },
-      res => res.body
+    return this._invalidate(
+      this._connection.request(
+        {
+          method: "PUT",
+          path: "/_api/simple/remove-by-example",
+          body: {
+            ...opts,
+            example,
+            collection: this.name
+          }
+        },
+        res => res.body
+      )
     );
   }
 
@@ -533,34 +718,38 @@ export abstract class BaseCollection<T extends object = any>
     newValue: any,
     opts?: { waitForSync?: boolean; limit?: number }
   ) {
-    return this._connection.request(
-      {
-        method: "PUT",
-        path: "/_api/simple/replace-by-example",
-        body: {
-          ...opts,
-          example,
-          newValue,
-          collection: this.name
-        }
-      },
-      res => res.body
+    return this._invalidate(
+      this._connection.request(
+        {
+          method: "PUT",
+          path: "/_api/simple/replace-by-example",
+          body: {
+            ...opts,
+            example,
+            newValue,
+            collection: this.name
+          }
+        },
+        res => res.body
+      )
     );
   }
 
   updateByExample(example: any, newValue: any, opts?: UpdateByExampleOptions) {
-    return this._connection.request(
-      {
-        method: "PUT",
-        path: "/_api/simple/update-by-example",
-        body: {
-          ...opts,
-          example,
-          newValue,
-          collection: this.name
-        }
-      },
-      res => res.body
+    return this._invalidate(
+      this._connection.request(
+        {
+          method: "PUT",
+          path: "/_api/simple/update-by-example",
+          body: {
+            ...opts,
+            example,
+            newValue,
+            collection: this.name
+          }
+        },
+        res => res.body
+      )
     );
   }
 
@@ -579,41 +768,60 @@ export abstract class BaseCollection<T extends object = any>
   }
 
   removeByKeys(keys: string[], options: any) {
-    return this._connection.request(
-      {
-        method: "PUT",
-        path: "/_api/simple/remove-by-keys",
-        body: {
-          options,
-          keys,
-          collection: this.name
-        }
-      },
-      res => res.body
+    return this._invalidate(
+      this._connection.request(
+        {
+          method: "PUT",
+          path: "/_api/simple/remove-by-keys",
+          body: {
+            options,
+            keys,
+            collection: this.name
+          }
+        },
+        res => res.body
+      )
     );
   }
 
   import(
     data: Buffer | Blob | string | any[],
-    { type = "auto", ...opts }: ImportOptions = {}
-  ): Promise<ImportResult> {
+    opts: ImportOptions & AsyncJobOptions<"store">
+  ): Promise<ArangoJob>;
+  import(
+    data: Buffer | Blob | string | any[],
+    opts: ImportOptions & AsyncJobOptions<true>
+  ): Promise<undefined>;
+  import(
+    data: Buffer | Blob | string | any[],
+    opts?: ImportOptions
+  ): Promise<ImportResult>;
+  import(
+    data: Buffer | Blob | string | any[],
+    {
+      type = "auto",
+      async: asyncMode,
+      ...opts
+    }: ImportOptions & Partial<AsyncJobOptions> = {}
+  ): Promise<ImportResult | ArangoJob | undefined> {
     if (Array.isArray(data)) {
       data = data.map(line => JSON.stringify(line)).join("\r\n") + "\r\n";
     }
-    return this._connection.request(
-      {
-        method: "POST",
-        path: "/_api/import",
-        body: data,
-        isBinary: true,
-        qs: {
-          type: type === null ? undefined : type,
-          ...opts,
-          collection: this.name
-        }
-      },
-      res => res.body
-    );
+    const options: RequestOptions = {
+      method: "POST",
+      path: "/_api/import",
+      body: data,
+      isBinary: true,
+      qs: {
+        type: type === null ? undefined : type,
+        ...opts,
+        collection: this.name
+      }
+    };
+    if (asyncMode) {
+      return this._invalidate(createJob(this._connection, options, asyncMode));
+    }
+    return this._invalidate(this._connection.request(options, res => res.body));
   }
 
   indexes() {
@@ -792,6 +1000,7 @@ export class DocumentCollection<T extends object = any> extends BaseCollection<
     if (typeof opts === "boolean") {
       opts = { returnNew: opts };
     }
+    const { signal = undefined, ...qs } = opts || {};
 
     if (this._connection.arangoMajor <= 2) {
       return this._connection.request(
@@ -800,9 +1009,10 @@ export class DocumentCollection<T extends object = any> extends BaseCollection<
           path: "/_api/document",
           body: data,
           qs: {
-            ...opts,
+            ...qs,
             collection: this.name
-          }
+          },
+          signal
         },
         res => res.body
       );
@@ -813,7 +1023,8 @@ export class DocumentCollection<T extends object = any> extends BaseCollection<
         method: "POST",
         path: `/_api/document/${this.name}`,
         body: data,
-        qs: opts
+        qs,
+        signal
       },
       res => res.body
     );
@@ -880,6 +1091,7 @@ export class EdgeCollection<T extends object = any> extends BaseCollection<T> {
     if (typeof opts === "boolean") {
       opts = { returnNew: opts };
     }
+    const { signal = undefined, ...qs } = opts || {};
     if (this._connection.arangoMajor <= 2) {
       if (Array.isArray(data)) {
         throw new Error("ArangoDB 2 does not support batch operations");
@@ -890,11 +1102,12 @@ export class EdgeCollection<T extends object = any> extends BaseCollection<T> {
           path: "/_api/edge",
           body: data,
           qs: {
-            ...opts,
+            ...qs,
             collection: this.name,
             from: (data as any)._from,
             to: (data as any)._to
-          }
+          },
+          signal
         },
         res => res.body
       );
@@ -906,9 +1119,10 @@ export class EdgeCollection<T extends object = any> extends BaseCollection<T> {
         path: "/_api/document",
         body: data,
         qs: {
-          ...opts,
+          ...qs,
           collection: this.name
-        }
+        },
+        signal
       },
       res => res.body
     );
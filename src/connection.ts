@@ -1,19 +1,146 @@
 import { stringify as querystringify } from "querystring";
-import { ArangoError, HttpError } from "./error";
+import {
+  AbortError,
+  ArangoError,
+  HttpError,
+  isAbortError,
+  isArangoError,
+  QueueFullError,
+  QueueTimeoutError
+} from "./error";
+import { btoa } from "./util/btoa";
 import {
   ArangojsResponse,
   createRequest,
   isBrowser,
   RequestFunction
 } from "./util/request";
+import { PriorityQueue } from "./util/priorityQueue";
 import { sanitizeUrl } from "./util/sanitizeUrl";
 import { Errback } from "./util/types";
-import { LinkedList } from "x3-linkedlist";
+import { decodeVPack, encodeVPack } from "./util/vpack";
 
 const MIME_JSON = /\/(json|javascript)(\W|$)/;
+const MIME_VPACK = /\/x-velocypack(\W|$)/;
+const VPACK_CONTENT_TYPE = "application/x-velocypack";
 const LEADER_ENDPOINT_HEADER = "x-arango-endpoint";
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "DELETE"];
+const TRANSIENT_ERROR_CODES = ["ECONNRESET", "ETIMEDOUT"];
+const CONFLICT = 1200;
+const PRECONDITION_FAILED = 412;
+const EWMA_WEIGHT = 0.3;
+const UNAUTHORIZED = 401;
+const PRIORITIES: RequestPriority[] = ["high", "normal", "low"];
+const MAX_SKIPPED = 4;
+const LATENCY_BUCKETS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+const OPEN_PATH = /^(\/_db\/[^/]+)?\/_open\//;
+const COMPRESSION_THRESHOLD = 1024;
+const ASYNC_HEADER = "x-arango-async";
+const MAX_STREAMS = 100;
+
+export type RequestPriority = "high" | "normal" | "low";
+
+export type Protocol = "http1" | "http2";
+
+export type ContentType = "json" | "vpack";
+
+export type AsyncMode = "store" | true;
+
+export type CompressionOptions = {
+  threshold?: number;
+};
+
+export type LoadBalancingStrategy =
+  | "NONE"
+  | "ROUND_ROBIN"
+  | "ONE_RANDOM"
+  | "LEAST_CONNECTIONS"
+  | "EWMA";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export type CircuitBreakerOptions = {
+  failureThreshold?: number;
+  cooldown?: number;
+  probeTimeout?: number;
+};
+
+export type AutoDiscoverOptions = {
+  interval?: number;
+  onTopologyChange?: (change: TopologyChange) => void;
+};
+
+export type TopologyChange = {
+  added: string[];
+  removed: string[];
+};
+
+export type HostHealth = {
+  url: string;
+  retired: boolean;
+  circuit: CircuitState;
+  failures: number;
+  openedAt?: number;
+  activeTasks: number;
+  latency?: number;
+};
+
+export type LatencyHistogram = {
+  buckets: number[];
+  counts: number[];
+  count: number;
+  sum: number;
+};
+
+export type HostStats = {
+  url: string;
+  requests: number;
+  errors: number;
+  retries: number;
+  failovers: number;
+  leaderRedirects: number;
+  latency: LatencyHistogram;
+};
+
+export type ConnectionStats = {
+  queueLength: number;
+  activeTasks: number;
+  hosts: HostStats[];
+};
+
+type HostCounters = Pick<
+  HostStats,
+  "requests" | "errors" | "retries" | "failovers" | "leaderRedirects"
+>;
+
+type HostState = {
+  retired: boolean;
+  circuit: CircuitState;
+  failures: number;
+  openedAt?: number;
+  activeTasks: number;
+  latency?: number;
+  stats: HostCounters & { latency: LatencyHistogram };
+};
+
+export type Authenticator = (
+  rejected?: string
+) => string | undefined | Promise<string | undefined>;
+
+export type Credentials =
+  | { username: string; password?: string }
+  | { token: string };
 
-export type LoadBalancingStrategy = "NONE" | "ROUND_ROBIN" | "ONE_RANDOM";
+export type CredentialsProvider = () => Credentials | Promise<Credentials>;
+
+export type RetryPolicy = {
+  retries?: number;
+  minDelay?: number;
+  maxDelay?: number;
+  factor?: number;
+  jitter?: boolean;
+  shouldRetry?: (err: Error, method: string) => boolean;
+};
 
 interface SystemError extends Error {
   code: string;
@@ -30,6 +157,61 @@ function isSystemError(err: Error): err is SystemError {
   );
 }
 
+export function isTransientError(err: Error, method: string): boolean {
+  if (isAbortError(err)) return false;
+  if (!IDEMPOTENT_METHODS.includes(method.toUpperCase())) return false;
+  if ((err as any).statusCode === 503) return true;
+  if (isArangoError(err)) {
+    return err.errorNum === CONFLICT && err.statusCode !== PRECONDITION_FAILED;
+  }
+  return TRANSIENT_ERROR_CODES.includes((err as any).code);
+}
+
+function getRetryDelay(
+  { minDelay = 100, maxDelay = 10000, factor = 2, jitter = true }: RetryPolicy,
+  retries: number
+) {
+  const delay = Math.min(maxDelay, minDelay * Math.pow(factor, retries));
+  return jitter ? delay / 2 + (Math.random() * delay) / 2 : delay;
+}
+
+function createCredentialsAuthenticator(
+  provider: CredentialsProvider
+): Authenticator {
+  let authorization: string | undefined;
+  let pending: Promise<string> | undefined;
+  return rejected => {
+    if (authorization !== undefined && rejected !== authorization) {
+      return authorization;
+    }
+    if (!pending) {
+      pending = Promise.resolve(provider()).then(
+        credentials => {
+          pending = undefined;
+          authorization =
+            "token" in credentials
+              ? `Bearer ${credentials.token}`
+              : `Basic ${btoa(
+                  `${credentials.username}:${credentials.password || ""}`
+                )}`;
+          return authorization;
+        },
+        err => {
+          pending = undefined;
+          throw err;
+        }
+      );
+    }
+    return pending;
+  };
+}
+
+function withBody(res: ArangojsResponse, body: any): ArangojsResponse {
+  return Object.assign(Object.create(Object.getPrototypeOf(res)), res, {
+    body
+  });
+}
+
 function clean<T>(obj: T) {
   const result = {} as typeof obj;
   for (const key of Object.keys(obj)) {
@@ -52,26 +234,68 @@ export type RequestOptions = {
   method?: string;
   body?: any;
   expectBinary?: boolean;
+  expectStream?: boolean;
   isBinary?: boolean;
   allowDirtyRead?: boolean;
   headers?: { [key: string]: string };
   timeout?: number;
+  signal?: AbortSignal;
+  retryPolicy?: RetryPolicy | false;
+  priority?: RequestPriority;
+  async?: AsyncMode;
   absolutePath?: boolean;
   basePath?: string;
   path?: string;
   qs?: string | { [key: string]: any };
 };
 
+export type BatchPart = {
+  options: Task["options"];
+  prepared: Promise<boolean>;
+  resolve: (res: ArangojsResponse, durationMs: number) => void;
+  reject: (err: Error) => void;
+};
+
+export type RequestTask = {
+  readonly retries: number;
+  readonly host?: number;
+  options: Task["options"];
+};
+
+export type RequestInterceptor = {
+  beforeRequest?: (
+    task: RequestTask
+  ) => void | ArangojsResponse | Promise<void | ArangojsResponse>;
+  afterResponse?: (
+    res: ArangojsResponse,
+    durationMs: number,
+    task: RequestTask
+  ) => void | ArangojsResponse | Promise<void | ArangojsResponse>;
+  onError?: (
+    err: Error,
+    task: RequestTask
+  ) => void | ArangojsResponse | Promise<void | ArangojsResponse>;
+};
+
 type Task = {
   host?: number;
   allowDirtyRead: boolean;
   resolve: Function;
   reject: Function;
   retries: number;
+  retryPolicy?: RetryPolicy;
+  retryTimer?: any;
+  reauthenticated?: boolean;
+  hostId?: number;
+  queueTimer?: any;
+  priority: RequestPriority;
   options: {
     method: string;
     expectBinary: boolean;
+    expectStream?: boolean;
     timeout?: number;
+    signal?: AbortSignal;
+    compression?: { threshold: number };
     url: { pathname: string; search?: string };
     headers: { [key: string]: string };
     body: any;
@@ -87,6 +311,16 @@ export type Config =
       arangoVersion: number;
       loadBalancingStrategy: LoadBalancingStrategy;
       maxRetries: false | number;
+      retryPolicy: RetryPolicy | false;
+      circuitBreaker: CircuitBreakerOptions | boolean;
+      autoDiscover: AutoDiscoverOptions | boolean;
+      credentials: CredentialsProvider;
+      maxQueueSize: number;
+      queueTimeout: number;
+      protocol: Protocol;
+      contentType: ContentType;
+      compression: CompressionOptions | boolean;
+      interceptors: RequestInterceptor[];
       agent: any;
       agentOptions: { [key: string]: any };
       headers: { [key: string]: string };
@@ -103,13 +337,31 @@ export class Connection {
   private _useFailOver: boolean;
   private _shouldRetry: boolean;
   private _maxRetries: number;
+  private _retryPolicy?: RetryPolicy;
+  private _interceptors: RequestInterceptor[];
+  private _authenticator?: Authenticator;
   private _maxTasks: number;
-  private _queue = new LinkedList<Task>();
+  private _protocol: Protocol;
+  private _useVPack: boolean;
+  private _compression?: { threshold: number };
+  private _streamLimits: { [url: string]: number } = {};
+  private _maxStreams: number;
+  private _queue = new PriorityQueue<Task>(
+    PRIORITIES.length,
+    task => PRIORITIES.indexOf(task.priority),
+    MAX_SKIPPED
+  );
+  private _maxQueueSize?: number;
+  private _queueTimeout?: number;
+  private _capacityWaiters: (() => void)[] = [];
   private _hosts: RequestFunction[] = [];
+  private _hostStates: HostState[] = [];
   private _urls: string[] = [];
+  private _circuitBreaker?: CircuitBreakerOptions;
   private _activeHost: number;
   private _activeDirtyHost: number;
   private _transactionId: string | null = null;
+  private _batch?: BatchPart[];
 
   constructor(config: Config = {}) {
     if (typeof config === "string") config = { url: config };
@@ -132,6 +384,15 @@ export class Connection {
         };
     this._maxTasks = this._agentOptions.maxSockets || 3;
     if (this._agentOptions.keepAlive) this._maxTasks *= 2;
+    this._maxStreams =
+      (config.agentOptions && config.agentOptions.maxSockets) || MAX_STREAMS;
+    this._protocol = config.protocol || "http1";
+    this._useVPack = !isBrowser && config.contentType === "vpack";
+    if (config.compression && !isBrowser) {
+      const { threshold = COMPRESSION_THRESHOLD } =
+        config.compression === true ? {} : config.compression;
+      this._compression = { threshold };
+    }
 
     this._headers = { ...config.headers };
     this._loadBalancingStrategy = config.loadBalancingStrategy || "NONE";
@@ -143,6 +404,17 @@ export class Connection {
       this._shouldRetry = true;
       this._maxRetries = config.maxRetries || 0;
     }
+    this._retryPolicy = config.retryPolicy || undefined;
+    this._interceptors = config.interceptors ? [...config.interceptors] : [];
+    this._maxQueueSize = config.maxQueueSize;
+    this._queueTimeout = config.queueTimeout;
+    if (config.credentials) {
+      this._authenticator = createCredentialsAuthenticator(config.credentials);
+    }
+    if (config.circuitBreaker) {
+      this._circuitBreaker =
+        config.circuitBreaker === true ? {} : config.circuitBreaker;
+    }
 
     const urls = config.url
       ? Array.isArray(config.url)
@@ -167,6 +439,11 @@ export class Connection {
   private _runQueue() {
     if (!this._queue.length || this._activeTasks >= this._maxTasks) return;
     const task = this._queue.shift()!;
+    if (task.queueTimer !== undefined) {
+      clearTimeout(task.queueTimer);
+      task.queueTimer = undefined;
+    }
+    this._notifyCapacity();
     let host = this._activeHost;
     if (task.host !== undefined) {
       host = task.host;
@@ -176,17 +453,39 @@ export class Connection {
       task.options.headers["x-arango-allow-dirty-read"] = "true";
     } else if (this._loadBalancingStrategy === "ROUND_ROBIN") {
       this._activeHost = (this._activeHost + 1) % this._hosts.length;
+    } else if (
+      this._loadBalancingStrategy === "LEAST_CONNECTIONS" ||
+      this._loadBalancingStrategy === "EWMA"
+    ) {
+      host = this._selectLeastLoadedHost();
+      this._activeHost = (this._activeHost + 1) % this._hosts.length;
+    }
+    if (task.host === undefined) {
+      host = this._selectAvailableHost(host);
     }
+    const state = this._hostStates[host];
     this._activeTasks += 1;
+    if (state) state.activeTasks += 1;
+    this._count(host, "requests");
+    task.hostId = host;
+    const start = Date.now();
     const callback: Errback<ArangojsResponse> = (err, res) => {
       this._activeTasks -= 1;
+      if (state) state.activeTasks -= 1;
+      this._releaseHost(host);
       if (err) {
+        if (!isAbortError(err)) {
+          this._count(host, "errors");
+          this._recordFailure(host);
+        }
         if (
+          !isAbortError(err) &&
           !task.allowDirtyRead &&
           this._hosts.length > 1 &&
           this._activeHost === host &&
           this._useFailOver
         ) {
+          this._count(host, "failovers");
           this._activeHost = (this._activeHost + 1) % this._hosts.length;
         }
         if (
@@ -198,16 +497,28 @@ export class Connection {
           err.code === "ECONNREFUSED"
         ) {
           task.retries += 1;
+          this._count(host, "retries");
           this._queue.push(task);
-        } else {
+        } else if (!this._retry(task, err)) {
           task.reject(err);
         }
       } else {
+        this._recordLatency(host, Date.now() - start);
         const response = res!;
-        if (
+        const leaderEndpoint =
           response.statusCode === 503 &&
-          response.headers[LEADER_ENDPOINT_HEADER]
-        ) {
+          response.headers[LEADER_ENDPOINT_HEADER];
+        const serverError = Boolean(
+          response.statusCode && response.statusCode >= 500
+        );
+        if (serverError) this._count(host, "errors");
+        if (serverError && !leaderEndpoint) {
+          this._recordFailure(host);
+        } else {
+          this._recordSuccess(host);
+        }
+        if (leaderEndpoint) {
+          this._count(host, "leaderRedirects");
           const url = response.headers[LEADER_ENDPOINT_HEADER]!;
           const [index] = this.addToHostList(url);
           task.host = index;
@@ -217,10 +528,18 @@ export class Connection {
           this._queue.push(task);
         } else {
           response.arangojsHostId = host;
-          task.resolve(response);
+          if (this._interceptors.length) {
+            this._afterResponse(task, response, Date.now() - start).then(
+              res => task.resolve(res),
+              err => task.reject(err)
+            );
+          } else {
+            task.resolve(response);
+          }
         }
       }
       this._runQueue();
+      this._notifyCapacity();
     };
     try {
       this._hosts[host](task.options, callback);
@@ -229,6 +548,286 @@ export class Connection {
     }
   }
 
+  private _selectLeastLoadedHost() {
+    let host = this._activeHost;
+    let minScore = Infinity;
+    for (let i = 0; i < this._hosts.length; i++) {
+      const index = (this._activeHost + i) % this._hosts.length;
+      const state = this._hostStates[index];
+      if (!state) continue;
+      if (!this._isAvailable(index)) continue;
+      const score =
+        this._loadBalancingStrategy === "EWMA"
+          ? (state.activeTasks + 1) * (state.latency || 0)
+          : state.activeTasks;
+      if (score < minScore) {
+        host = index;
+        minScore = score;
+      }
+    }
+    return host;
+  }
+
+  private _selectAvailableHost(host: number) {
+    for (let i = 0; i < this._hosts.length; i++) {
+      const index = (host + i) % this._hosts.length;
+      if (this._isAvailable(index)) return index;
+    }
+    return host;
+  }
+
+  private _isAvailable(index: number) {
+    const state = this._hostStates[index];
+    if (!state) return true;
+    if (state.retired) return false;
+    if (state.circuit === "closed") return true;
+    const { cooldown = 10000 } = this._circuitBreaker!;
+    if (state.circuit === "open" && Date.now() - state.openedAt! >= cooldown) {
+      this._probe(index);
+    }
+    return false;
+  }
+
+  private _probe(index: number) {
+    const state = this._hostStates[index];
+    const { cooldown = 10000, probeTimeout = cooldown } = this._circuitBreaker!;
+    state.circuit = "half-open";
+    let done = false;
+    const callback: Errback<ArangojsResponse> = (err, res) => {
+      if (done) return;
+      done = true;
+      clearTimeout(timer);
+      if (err || Number(res!.statusCode) >= 500) {
+        state.circuit = "open";
+        state.openedAt = Date.now();
+      } else {
+        state.circuit = "closed";
+        state.failures = 0;
+        state.openedAt = undefined;
+      }
+      this._runQueue();
+    };
+    const timer = setTimeout(
+      () =>
+        callback(new Error(`Health check timed out after ${probeTimeout}ms`)),
+      probeTimeout
+    );
+    try {
+      this._hosts[index](
+        {
+          method: "GET",
+          url: { pathname: "/_api/version" },
+          headers: {
+            ...this._headers,
+            "x-arango-version": String(this._arangoVersion)
+          },
+          body: undefined,
+          expectBinary: false,
+          timeout: probeTimeout
+        },
+        callback
+      );
+    } catch (e) {
+      callback(e);
+    }
+  }
+
+  private _releaseHost(index: number) {
+    const state = this._hostStates[index];
+    if (!state || !state.retired || state.activeTasks > 0) return;
+    const host = this._hosts[index];
+    if (!this._agent && host.close) host.close();
+  }
+
+  private _count(index: number, counter: keyof HostCounters) {
+    const state = this._hostStates[index];
+    if (state) state.stats[counter] += 1;
+  }
+
+  private _recordFailure(index: number) {
+    const state = this._hostStates[index];
+    if (!state) return;
+    state.failures += 1;
+    if (!this._circuitBreaker || state.circuit !== "closed") return;
+    const { failureThreshold = 5 } = this._circuitBreaker;
+    if (state.failures >= failureThreshold) {
+      state.circuit = "open";
+      state.openedAt = Date.now();
+    }
+  }
+
+  private _recordSuccess(index: number) {
+    const state = this._hostStates[index];
+    if (state) state.failures = 0;
+  }
+
+  private _recordLatency(index: number, duration: number) {
+    const state = this._hostStates[index];
+    if (!state) return;
+    const histogram = state.stats.latency;
+    let bucket = histogram.buckets.findIndex(bound => duration <= bound);
+    if (bucket === -1) bucket = histogram.buckets.length;
+    histogram.counts[bucket] += 1;
+    histogram.count += 1;
+    histogram.sum += duration;
+    state.latency =
+      state.latency === undefined
+        ? duration
+        : state.latency + EWMA_WEIGHT * (duration - state.latency);
+  }
+
+  private _isBusy() {
+    return this._queue.length > 0 || this._activeTasks >= this._maxTasks;
+  }
+
+  private _hasCapacity() {
+    return (
+      this._maxQueueSize === undefined ||
+      this._queue.length < this._maxQueueSize ||
+      !this._isBusy()
+    );
+  }
+
+  private _notifyCapacity() {
+    if (!this._capacityWaiters.length || !this._hasCapacity()) return;
+    const waiters = this._capacityWaiters;
+    this._capacityWaiters = [];
+    for (const resolve of waiters) resolve();
+  }
+
+  private _enqueue(task: Task) {
+    if (this._isBusy()) {
+      if (!this._hasCapacity()) {
+        task.reject(new QueueFullError());
+        return;
+      }
+      if (this._queueTimeout) {
+        task.queueTimer = setTimeout(() => {
+          task.queueTimer = undefined;
+          if (this._queue.remove(task)) {
+            this._notifyCapacity();
+            task.reject(new QueueTimeoutError());
+          }
+        }, this._queueTimeout);
+      }
+    }
+    this._queue.push(task);
+    this._runQueue();
+  }
+
+  private _shouldAuthenticate(task: Task) {
+    return Boolean(
+      this._authenticator && !task.options.url.pathname.match(OPEN_PATH)
+    );
+  }
+
+  private async _authenticate(task: Task, rejected?: string) {
+    const authorization = await this._authenticator!(rejected);
+    if (authorization) task.options.headers.authorization = authorization;
+  }
+
+  private async _prepare(task: Task) {
+    if (this._shouldAuthenticate(task)) await this._authenticate(task);
+    return this._beforeRequest(task);
+  }
+
+  private _reauthenticate(task: Task, err: Error): boolean {
+    if (
+      task.reauthenticated ||
+      (err as any).statusCode !== UNAUTHORIZED ||
+      !this._shouldAuthenticate(task)
+    ) {
+      return false;
+    }
+    task.reauthenticated = true;
+    this._authenticate(task, task.options.headers.authorization).then(
+      () => {
+        if (task.options.signal && task.options.signal.aborted) {
+          task.reject(new AbortError());
+          return;
+        }
+        this._queue.push(task);
+        this._runQueue();
+      },
+      err => task.reject(err)
+    );
+    return true;
+  }
+
+  private async _beforeRequest(task: Task) {
+    for (const interceptor of this._interceptors) {
+      if (!interceptor.beforeRequest) continue;
+      const res = await interceptor.beforeRequest(task);
+      if (res) return res;
+    }
+    return undefined;
+  }
+
+  private async _afterResponse(
+    task: Task,
+    res: ArangojsResponse,
+    durationMs: number
+  ) {
+    for (const interceptor of this._interceptors) {
+      if (!interceptor.afterResponse) continue;
+      res = (await interceptor.afterResponse(res, durationMs, task)) || res;
+    }
+    return res;
+  }
+
+  private async _onError(task: Task, err: Error) {
+    for (const interceptor of this._interceptors) {
+      if (!interceptor.onError) continue;
+      const res = await interceptor.onError(err, task);
+      if (res) return res;
+    }
+    return undefined;
+  }
+
+  private _retry(task: Task, err: Error): boolean {
+    const policy = task.retryPolicy;
+    if (!policy || task.host !== undefined) return false;
+    const { retries = 3, shouldRetry = isTransientError } = policy;
+    if (task.retries >= retries || !shouldRetry(err, task.options.method)) {
+      return false;
+    }
+    const delay = getRetryDelay(policy, task.retries);
+    task.retries += 1;
+    if (task.hostId !== undefined) this._count(task.hostId, "retries");
+    task.retryTimer = setTimeout(() => {
+      task.retryTimer = undefined;
+      this._queue.push(task);
+      this._runQueue();
+    }, delay);
+    return true;
+  }
+
+  private _sanitizeUrl(url: string) {
+    url = sanitizeUrl(url);
+    if (this._protocol !== "http2") return url;
+    return url.replace(/^http(s?):/, (_, tls) => (tls ? "h2:" : "h2c:"));
+  }
+
+  private _setStreamLimit(url: string, maxStreams: number) {
+    this._streamLimits[url] = maxStreams;
+    this._updateStreamLimit();
+  }
+
+  private _updateStreamLimit() {
+    const limits = this._urls
+      .filter(
+        (url, index) =>
+          !this._hostStates[index].retired &&
+          this._streamLimits[url] !== undefined
+      )
+      .map(url => this._streamLimits[url]);
+    if (!limits.length) return;
+    this._maxTasks = Math.min(this._maxStreams, ...limits);
+    while (this._queue.length && this._activeTasks < this._maxTasks) {
+      this._runQueue();
+    }
+  }
+
   private _buildUrl({ absolutePath = false, basePath, path, qs }: UrlInfo) {
     let pathname = "";
     let search;
@@ -246,18 +845,69 @@ export class Connection {
 
   addToHostList(urls: string | string[]): number[] {
     const cleanUrls = (Array.isArray(urls) ? urls : [urls]).map(url =>
-      sanitizeUrl(url)
+      this._sanitizeUrl(url)
     );
+    let restored = false;
+    for (const url of cleanUrls) {
+      const index = this._urls.indexOf(url);
+      if (index === -1 || !this._hostStates[index].retired) continue;
+      this._hostStates[index].retired = false;
+      restored = true;
+    }
+    if (restored) this._updateStreamLimit();
     const newUrls = cleanUrls.filter(url => this._urls.indexOf(url) === -1);
     this._urls.push(...newUrls);
+    this._hostStates.push(
+      ...newUrls.map(() => ({
+        retired: false,
+        circuit: "closed" as CircuitState,
+        failures: 0,
+        activeTasks: 0,
+        stats: {
+          requests: 0,
+          errors: 0,
+          retries: 0,
+          failovers: 0,
+          leaderRedirects: 0,
+          latency: {
+            buckets: LATENCY_BUCKETS,
+            counts: LATENCY_BUCKETS.map(() => 0).concat(0),
+            count: 0,
+            sum: 0
+          }
+        }
+      }))
+    );
     this._hosts.push(
       ...newUrls.map((url: string) =>
-        createRequest(url, this._agentOptions, this._agent)
+        createRequest(url, this._agentOptions, this._agent, maxStreams =>
+          this._setStreamLimit(url, maxStreams)
+        )
       )
     );
     return cleanUrls.map(url => this._urls.indexOf(url));
   }
 
+  removeFromHostList(urls: string | string[]): number[] {
+    const cleanUrls = (Array.isArray(urls) ? urls : [urls]).map(url =>
+      this._sanitizeUrl(url)
+    );
+    const indexes = cleanUrls
+      .map(url => this._urls.indexOf(url))
+      .filter(index => index !== -1 && !this._hostStates[index].retired);
+    if (
+      indexes.length >= this._hostStates.filter(state => !state.retired).length
+    ) {
+      throw new Error("Cannot remove all hosts from host list");
+    }
+    for (const index of indexes) {
+      this._hostStates[index].retired = true;
+      this._releaseHost(index);
+    }
+    this._updateStreamLimit();
+    return indexes;
+  }
+
   get arangoMajor() {
     return Math.floor(this._arangoVersion / 10000);
   }
@@ -270,6 +920,29 @@ export class Connection {
     return this._activeHost;
   }
 
+  getHostHealth(): HostHealth[] {
+    return this._hostStates.map(({ stats, ...state }, index) => ({
+      url: this._urls[index],
+      ...state
+    }));
+  }
+
+  getStats(): ConnectionStats {
+    return {
+      queueLength: this._queue.length,
+      activeTasks: this._activeTasks,
+      hosts: this._hostStates.map(({ stats }, index) => ({
+        url: this._urls[index],
+        ...stats,
+        latency: {
+          ...stats.latency,
+          buckets: [...stats.latency.buckets],
+          counts: [...stats.latency.counts]
+        }
+      }))
+    };
+  }
+
   setDatabaseName(databaseName: string) {
     if (this._databaseName === false) {
       throw new Error("Can not change database from absolute URL");
@@ -285,10 +958,38 @@ export class Connection {
     this._transactionId = null;
   }
 
+  setBatch(batch: BatchPart[]) {
+    this._batch = batch;
+  }
+
+  clearBatch() {
+    this._batch = undefined;
+  }
+
   setHeader(key: string, value: string) {
     this._headers[key] = value;
   }
 
+  waitForCapacity(): Promise<void> {
+    if (this._hasCapacity()) return Promise.resolve();
+    return new Promise(resolve => {
+      this._capacityWaiters.push(resolve);
+    });
+  }
+
+  setAuthenticator(authenticator?: Authenticator) {
+    this._authenticator = authenticator;
+  }
+
+  addInterceptor(interceptor: RequestInterceptor) {
+    this._interceptors.push(interceptor);
+  }
+
+  removeInterceptor(interceptor: RequestInterceptor) {
+    const index = this._interceptors.indexOf(interceptor);
+    if (index !== -1) this._interceptors.splice(index, 1);
+  }
+
   close() {
     for (const host of this._hosts) {
       if (host.close) host.close();
@@ -301,20 +1002,40 @@ export class Connection {
       method = "GET",
       body,
       expectBinary = false,
+      expectStream = false,
       isBinary = false,
       allowDirtyRead = false,
       timeout = 0,
+      signal,
+      retryPolicy,
+      priority = "normal",
+      async: asyncMode,
       headers,
       ...urlInfo
     }: RequestOptions,
     getter?: (res: ArangojsResponse) => T
   ): Promise<T> {
     return new Promise((resolve, reject) => {
+      if (signal && signal.aborted) {
+        reject(new AbortError());
+        return;
+      }
+
+      if (!PRIORITIES.includes(priority)) {
+        reject(new Error(`Unknown request priority: "${priority}"`));
+        return;
+      }
+
+      if (expectStream) expectBinary = true;
+
       let contentType = "text/plain";
       if (isBinary) {
         contentType = "application/octet-stream";
       } else if (body) {
-        if (typeof body === "object") {
+        if (typeof body === "object" && this._useVPack) {
+          body = encodeVPack(body);
+          contentType = VPACK_CONTENT_TYPE;
+        } else if (typeof body === "object") {
           body = JSON.stringify(body);
           contentType = "application/json";
         } else {
@@ -332,60 +1053,201 @@ export class Connection {
         extraHeaders["x-arango-trx-id"] = this._transactionId;
       }
 
-      this._queue.push({
+      if (asyncMode) {
+        extraHeaders[ASYNC_HEADER] = String(asyncMode);
+      }
+
+      if (this._useVPack) {
+        extraHeaders["accept"] = VPACK_CONTENT_TYPE;
+      }
+
+      let onAbort: (() => void) | undefined;
+      const removeAbortListener = () => {
+        if (signal && onAbort) signal.removeEventListener("abort", onAbort);
+      };
+
+      const fail = (err: Error) => {
+        removeAbortListener();
+        reject(err);
+      };
+
+      const settle = (res: ArangojsResponse, onError: (err: Error) => void) => {
+        const contentType = res.headers["content-type"];
+        let parsedBody: any = undefined;
+        if (res.body.length && contentType && contentType.match(MIME_JSON)) {
+          try {
+            parsedBody = res.body;
+            parsedBody = JSON.parse(parsedBody);
+          } catch (e) {
+            if (!expectBinary) {
+              if (typeof parsedBody !== "string") {
+                parsedBody = res.body.toString("utf-8");
+              }
+              e.response = res;
+              onError(e);
+              return;
+            }
+          }
+        } else if (
+          res.body.length &&
+          contentType &&
+          contentType.match(MIME_VPACK)
+        ) {
+          try {
+            parsedBody = decodeVPack(res.body);
+          } catch (e) {
+            if (!expectBinary) {
+              e.response = res;
+              onError(e);
+              return;
+            }
+          }
+        } else if (res.body && !expectBinary) {
+          parsedBody = res.body.toString("utf-8");
+        } else {
+          parsedBody = res.body;
+        }
+        if (
+          parsedBody &&
+          parsedBody.hasOwnProperty("error") &&
+          parsedBody.hasOwnProperty("code") &&
+          parsedBody.hasOwnProperty("errorMessage") &&
+          parsedBody.hasOwnProperty("errorNum")
+        ) {
+          onError(new ArangoError(withBody(res, parsedBody)));
+        } else if (res.statusCode && res.statusCode >= 400) {
+          onError(new HttpError(withBody(res, parsedBody)));
+        } else {
+          removeAbortListener();
+          if (!expectBinary) res = withBody(res, parsedBody);
+          resolve(getter ? getter(res) : (res as any));
+        }
+      };
+
+      const task: Task = {
         retries: 0,
+        retryPolicy:
+          retryPolicy === undefined
+            ? this._retryPolicy
+            : retryPolicy || undefined,
+        priority,
         host,
         allowDirtyRead,
         options: {
           url: this._buildUrl(urlInfo),
           headers: { ...extraHeaders, ...headers },
           timeout,
+          signal,
+          compression: this._compression,
           method,
           expectBinary,
+          expectStream,
           body
         },
-        reject,
+        reject: (err: Error) => {
+          if (!this._interceptors.length) {
+            fail(err);
+            return;
+          }
+          this._onError(task, err).then(
+            res => (res ? settle(res, fail) : fail(err)),
+            fail
+          );
+        },
         resolve: (res: ArangojsResponse) => {
-          const contentType = res.headers["content-type"];
-          let parsedBody: any = undefined;
-          if (res.body.length && contentType && contentType.match(MIME_JSON)) {
-            try {
-              parsedBody = res.body;
-              parsedBody = JSON.parse(parsedBody);
-            } catch (e) {
-              if (!expectBinary) {
-                if (typeof parsedBody !== "string") {
-                  parsedBody = res.body.toString("utf-8");
-                }
-                e.response = res;
-                reject(e);
-                return;
-              }
+          settle(res, err => {
+            if (this._reauthenticate(task, err)) return;
+            if (!this._retry(task, err)) task.reject(err);
+          });
+        }
+      };
+
+      let prepared: ((included: boolean) => void) | undefined;
+      let batched = false;
+      if (this._batch) {
+        this._batch.push({
+          options: task.options,
+          prepared: new Promise(resolve => (prepared = resolve)),
+          resolve: (res, durationMs) => {
+            if (!batched) return;
+            batched = false;
+            if (!this._interceptors.length) {
+              task.resolve(res);
+              return;
             }
-          } else if (res.body && !expectBinary) {
-            parsedBody = res.body.toString("utf-8");
-          } else {
-            parsedBody = res.body;
-          }
-          if (
-            parsedBody &&
-            parsedBody.hasOwnProperty("error") &&
-            parsedBody.hasOwnProperty("code") &&
-            parsedBody.hasOwnProperty("errorMessage") &&
-            parsedBody.hasOwnProperty("errorNum")
-          ) {
-            res.body = parsedBody;
-            reject(new ArangoError(res));
-          } else if (res.statusCode && res.statusCode >= 400) {
-            res.body = parsedBody;
-            reject(new HttpError(res));
-          } else {
-            if (!expectBinary) res.body = parsedBody;
-            resolve(getter ? getter(res) : (res as any));
+            this._afterResponse(task, res, durationMs).then(
+              res => task.resolve(res),
+              err => task.reject(err)
+            );
+          },
+          reject: err => {
+            if (!batched) return;
+            batched = false;
+            task.reject(err);
           }
+        });
+      }
+
+      const dispatch = () => {
+        if (!prepared) {
+          this._enqueue(task);
+          return;
         }
-      });
-      this._runQueue();
+        batched = true;
+        prepared(true);
+        prepared = undefined;
+      };
+
+      const discard = () => {
+        if (prepared) prepared(false);
+        prepared = undefined;
+      };
+
+      if (signal) {
+        onAbort = () => {
+          if (batched) {
+            batched = false;
+            task.reject(new AbortError());
+          } else if (task.retryTimer !== undefined) {
+            clearTimeout(task.retryTimer);
+            task.retryTimer = undefined;
+            task.reject(new AbortError());
+          } else if (this._queue.remove(task)) {
+            if (task.queueTimer !== undefined) {
+              clearTimeout(task.queueTimer);
+              task.queueTimer = undefined;
+            }
+            this._notifyCapacity();
+            task.reject(new AbortError());
+          }
+        };
+        signal.addEventListener("abort", onAbort);
+      }
+
+      if (this._interceptors.length || this._shouldAuthenticate(task)) {
+        this._prepare(task).then(
+          res => {
+            if (res) {
+              discard();
+              task.resolve(res);
+              return;
+            }
+            if (signal && signal.aborted) {
+              discard();
+              task.reject(new AbortError());
+              return;
+            }
+            dispatch();
+          },
+          err => {
+            discard();
+            task.reject(err);
+          }
+        );
+        return;
+      }
+
+      dispatch();
     });
   }
 }
@@ -1,4 +1,11 @@
+import { Readable } from "stream";
 import { Connection } from "./connection";
+import { createReadable } from "./util/readable";
+
+export type CursorOptions = {
+  prefetch?: boolean | number;
+  signal?: AbortSignal;
+};
 
 export class ArrayCursor {
   extra: any;
@@ -10,12 +17,17 @@ export class ArrayCursor {
   private _id: string | undefined;
   private _host?: number;
   private _allowDirtyRead?: boolean;
+  private _batchSize: number;
+  private _prefetch: number;
+  private _fetching?: Promise<void>;
+  private _signal?: AbortSignal;
 
   constructor(
     connection: Connection,
     body: any,
     host?: number,
-    allowDirtyRead?: boolean
+    allowDirtyRead?: boolean,
+    options: CursorOptions = {}
   ) {
     this.extra = body.extra;
     this._connection = connection;
@@ -25,6 +37,11 @@ export class ArrayCursor {
     this._host = host;
     this.count = body.count;
     this._allowDirtyRead = allowDirtyRead;
+    this._batchSize = Math.max(1, this._result.length);
+    this._prefetch =
+      options.prefetch === true ? 1 : Number(options.prefetch) || 0;
+    this._signal = options.signal;
+    this._prefetchMore();
   }
 
   private async _drain(): Promise<ArrayCursor> {
@@ -33,18 +50,89 @@ export class ArrayCursor {
     return this._drain();
   }
 
+  private async _fetchBatch() {
+    const res = await this._connection.request({
+      method: "PUT",
+      path: `/_api/cursor/${this._id}`,
+      host: this._host,
+      allowDirtyRead: this._allowDirtyRead,
+      signal: this._signal
+    });
+    this._result.push(...res.body.result);
+    this._hasMore = res.body.hasMore;
+  }
+
+  private _prefetchMore() {
+    if (!this._prefetch || this._fetching || !this._hasMore) return;
+    if (this._result.length > this._prefetch * this._batchSize) return;
+    const fetching = this._fetchBatch();
+    this._fetching = fetching;
+    fetching.then(
+      () => {
+        this._fetching = undefined;
+        this._prefetchMore();
+      },
+      () => undefined
+    );
+  }
+
   private async _more() {
-    if (!this._hasMore) return;
-    else {
-      const res = await this._connection.request({
-        method: "PUT",
-        path: `/_api/cursor/${this._id}`,
-        host: this._host,
-        allowDirtyRead: this._allowDirtyRead
-      });
-      this._result.push(...res.body.result);
-      this._hasMore = res.body.hasMore;
+    const fetching = this._fetching;
+    if (fetching) {
+      try {
+        await fetching;
+      } finally {
+        if (this._fetching === fetching) this._fetching = undefined;
+      }
+    } else if (this._hasMore) {
+      await this._fetchBatch();
     }
+    this._prefetchMore();
+  }
+
+  private _shift() {
+    const value = this._result.shift();
+    this._prefetchMore();
+    return value;
+  }
+
+  private _iterate<T>(fetch: () => Promise<T>): AsyncIterableIterator<T> {
+    let done = false;
+    const iterator: AsyncIterableIterator<T> = {
+      next: async () => {
+        if (done || !this.hasNext()) {
+          done = true;
+          return { done: true, value: undefined as any };
+        }
+        try {
+          return { done: false, value: await fetch() };
+        } catch (e) {
+          done = true;
+          throw e;
+        }
+      },
+      return: async () => {
+        if (!done) {
+          done = true;
+          await this.kill();
+        }
+        return { done: true, value: undefined as any };
+      },
+      [Symbol.asyncIterator]: () => iterator
+    };
+    return iterator;
+  }
+
+  get batches(): AsyncIterableIterator<any[]> {
+    return this._iterate(() => this.nextBatch() as Promise<any[]>);
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<any> {
+    return this._iterate(() => this.next());
+  }
+
+  stream(): Readable | ReadableStream {
+    return createReadable(this);
   }
 
   async all() {
@@ -61,7 +149,7 @@ export class ArrayCursor {
     if (!this._result.length) {
       return undefined;
     }
-    return this._result.shift();
+    return this._shift();
   }
 
   hasNext(): boolean {
@@ -75,7 +163,9 @@ export class ArrayCursor {
     if (!this._result.length) {
       return undefined;
     }
-    return this._result.splice(0, this._result.length);
+    const batch = this._result.splice(0, this._result.length);
+    this._prefetchMore();
+    return batch;
   }
 
   async each(
@@ -85,7 +175,7 @@ export class ArrayCursor {
     while (this._result.length || this._hasMore) {
       let result;
       while (this._result.length) {
-        result = fn(this._result.shift(), index, this);
+        result = fn(this._shift(), index, this);
         index++;
         if (result === false) return result;
       }
@@ -101,7 +191,7 @@ export class ArrayCursor {
     while (this._result.length || this._hasMore) {
       let result;
       while (this._result.length) {
-        result = fn(this._result.shift(), index, this);
+        result = fn(this._shift(), index, this);
         index++;
         if (!result) return false;
       }
@@ -117,7 +207,7 @@ export class ArrayCursor {
     while (this._result.length || this._hasMore) {
       let result;
       while (this._result.length) {
-        result = fn(this._result.shift(), index, this);
+        result = fn(this._shift(), index, this);
         index++;
         if (result) return true;
       }
@@ -133,7 +223,7 @@ export class ArrayCursor {
     let result: any[] = [];
     while (this._result.length || this._hasMore) {
       while (this._result.length) {
-        result.push(fn(this._result.shift(), index, this));
+        result.push(fn(this._shift(), index, this));
         index++;
       }
       if (this._hasMore) await this._more();
@@ -150,12 +240,12 @@ export class ArrayCursor {
       if (!this._result.length && !this._hasMore) {
         await this._more();
       }
-      accu = this._result.shift();
+      accu = this._shift();
       index += 1;
     }
     while (this._result.length || this._hasMore) {
       while (this._result.length) {
-        accu = fn(accu!, this._result.shift(), index, this);
+        accu = fn(accu!, this._shift(), index, this);
         index++;
       }
       if (this._hasMore) await this._more();
@@ -164,6 +254,10 @@ export class ArrayCursor {
   }
 
   async kill(): Promise<void> {
+    this._prefetch = 0;
+    if (this._fetching) {
+      await this._fetching.catch(() => undefined);
+    }
     if (!this._hasMore) return undefined;
     return this._connection.request(
       {
@@ -1,3 +1,4 @@
+import { Readable } from "stream";
 import { AnalyzerDescription, ArangoAnalyzer } from "./analyzer";
 import { AqlLiteral, AqlQuery, isAqlLiteral, isAqlQuery } from "./aql-query";
 import {
@@ -7,12 +8,23 @@ import {
   EdgeCollection,
   isArangoCollection
 } from "./collection";
-import { Config, Connection } from "./connection";
+import {
+  AutoDiscoverOptions,
+  BatchPart,
+  Config,
+  Connection,
+  ConnectionStats,
+  HostHealth,
+  RequestInterceptor
+} from "./connection";
 import { ArrayCursor } from "./cursor";
 import { isArangoError } from "./error";
 import { Graph } from "./graph";
+import { ArangoJob } from "./job";
 import { Route } from "./route";
 import { ArangoTransaction } from "./transaction";
+import { atob } from "./util/atob";
+import { fromBatch, toBatch } from "./util/batch";
 import { btoa } from "./util/btoa";
 import { toForm } from "./util/multipart";
 import { ArangoSearchView, ArangoView, constructView, ViewType } from "./view";
@@ -65,6 +77,8 @@ export type QueryOptions = {
   maxRuntime?: number;
   ttl?: number;
   timeout?: number;
+  prefetch?: boolean | number;
+  signal?: AbortSignal;
   options?: {
     failOnWarning?: boolean;
     profile?: boolean;
@@ -165,12 +179,102 @@ export interface CreateDatabaseUser {
   extra?: { [key: string]: any };
 }
 
+export type LoginOptions = {
+  autoRefresh?: boolean;
+  refreshMargin?: number;
+};
+
+type Session = {
+  username: string;
+  password: string;
+  refreshMargin: number;
+  token: string;
+  expiresAt?: number;
+  refreshing?: Promise<string>;
+};
+
+function getTokenExpiry(token: string): number | undefined {
+  try {
+    const payload = token
+      .split(".")[1]
+      .replace(/-/g, "+")
+      .replace(/_/g, "/");
+    const { exp } = JSON.parse(
+      atob(payload + "===".slice((payload.length + 3) % 4))
+    );
+    return typeof exp === "number" ? exp * 1000 : undefined;
+  } catch (e) {
+    return undefined;
+  }
+}
+
 const DATABASE_NOT_FOUND = 1228;
 export class Database {
   private _connection: Connection;
+  private _seedUrls: string[] = [];
+  private _discoveryTimer?: any;
+  private _session?: Session;
 
   constructor(config?: Config) {
     this._connection = new Connection(config);
+    if (
+      config &&
+      typeof config === "object" &&
+      !Array.isArray(config) &&
+      config.autoDiscover
+    ) {
+      this._enableAutoDiscover(
+        config.autoDiscover === true ? {} : config.autoDiscover
+      );
+    }
+  }
+
+  private _enableAutoDiscover({
+    interval = 60000,
+    onTopologyChange
+  }: AutoDiscoverOptions) {
+    if (!this._connection.getDatabaseName()) {
+      throw new Error("Cannot enable autoDiscover with absolute URL");
+    }
+    this._seedUrls = this._connection.getHostHealth().map(host => host.url);
+    this._discoveryTimer = setInterval(async () => {
+      try {
+        const change = await this._discoverHosts();
+        if (
+          onTopologyChange &&
+          (change.added.length || change.removed.length)
+        ) {
+          onTopologyChange(change);
+        }
+      } catch (e) {
+        // ignore errors, the next interval will try again
+      }
+    }, interval);
+    if (this._discoveryTimer.unref) this._discoveryTimer.unref();
+  }
+
+  private async _discoverHosts() {
+    const known = this._connection
+      .getHostHealth()
+      .filter(host => !host.retired)
+      .map(host => host.url);
+    const urls: string[] = await this._connection.request(
+      { path: "/_api/cluster/endpoints" },
+      res => res.body.endpoints.map((endpoint: any) => endpoint.endpoint)
+    );
+    const indexes = this._connection.addToHostList(urls);
+    const health = this._connection.getHostHealth();
+    const current = indexes.map(index => health[index].url);
+    const removed = known.filter(
+      url => current.indexOf(url) === -1 && this._seedUrls.indexOf(url) === -1
+    );
+    if (current.length && removed.length) {
+      this._connection.removeFromHostList(removed);
+    }
+    return {
+      added: current.filter(url => known.indexOf(url) === -1),
+      removed
+    };
   }
 
   get name(): string | null {
@@ -203,13 +307,43 @@ export class Database {
     this._connection.addToHostList(urls);
   }
 
+  getHostHealth(): HostHealth[] {
+    return this._connection.getHostHealth();
+  }
+
+  getConnectionStats(): ConnectionStats {
+    return this._connection.getStats();
+  }
+
+  waitForCapacity(): Promise<void> {
+    return this._connection.waitForCapacity();
+  }
+
+  addInterceptor(interceptor: RequestInterceptor): this {
+    this._connection.addInterceptor(interceptor);
+    return this;
+  }
+
+  removeInterceptor(interceptor: RequestInterceptor): this {
+    this._connection.removeInterceptor(interceptor);
+    return this;
+  }
+
   close(): void {
+    if (this._discoveryTimer) {
+      clearInterval(this._discoveryTimer);
+      this._discoveryTimer = undefined;
+    }
     this._connection.close();
   }
   //#endregion
 
   //#region auth
-  login(username: string = "root", password: string = ""): Promise<string> {
+  login(
+    username: string = "root",
+    password: string = "",
+    { autoRefresh = false, refreshMargin = 60000 }: LoginOptions = {}
+  ): Promise<string> {
     return this._connection.request(
       {
         method: "POST",
@@ -218,17 +352,82 @@ export class Database {
       },
       res => {
         this.useBearerAuth(res.body.jwt);
+        if (autoRefresh) {
+          this._session = {
+            username,
+            password,
+            refreshMargin,
+            token: res.body.jwt,
+            expiresAt: getTokenExpiry(res.body.jwt)
+          };
+          this._connection.setAuthenticator(rejected =>
+            this._authenticateSession(rejected)
+          );
+        }
         return res.body.jwt;
       }
     );
   }
 
+  private _refreshSession(session: Session): Promise<string> {
+    if (!session.refreshing) {
+      session.refreshing = this._connection
+        .request(
+          {
+            method: "POST",
+            path: "/_open/auth",
+            body: { username: session.username, password: session.password }
+          },
+          res => res.body.jwt as string
+        )
+        .then(
+          token => {
+            session.refreshing = undefined;
+            session.token = token;
+            session.expiresAt = getTokenExpiry(token);
+            if (this._session === session) {
+              this._connection.setHeader("authorization", `Bearer ${token}`);
+            }
+            return token;
+          },
+          err => {
+            session.refreshing = undefined;
+            throw err;
+          }
+        );
+    }
+    return session.refreshing;
+  }
+
+  private async _authenticateSession(rejected?: string) {
+    const session = this._session;
+    if (!session) return undefined;
+    const authorization = `Bearer ${session.token}`;
+    const expired =
+      session.expiresAt !== undefined &&
+      Date.now() >= session.expiresAt - session.refreshMargin;
+    if (rejected !== authorization && !expired) return authorization;
+    try {
+      return `Bearer ${await this._refreshSession(session)}`;
+    } catch (e) {
+      if (!rejected && Date.now() < session.expiresAt!) return authorization;
+      throw e;
+    }
+  }
+
+  private _resetAuth() {
+    this._session = undefined;
+    this._connection.setAuthenticator(undefined);
+  }
+
   useBearerAuth(token: string): this {
+    this._resetAuth();
     this._connection.setHeader("authorization", `Bearer ${token}`);
     return this;
   }
 
   useBasicAuth(username: string = "root", password: string = ""): this {
+    this._resetAuth();
     this._connection.setHeader(
       "authorization",
       `Basic ${btoa(`${username}:${password}`)}`
@@ -478,6 +677,97 @@ export class Database {
   }
   //#endregion
 
+  //#region batches
+  batch<T>(fn: () => Promise<T>): Promise<T> {
+    const parts: BatchPart[] = [];
+    this._connection.setBatch(parts);
+    try {
+      return Promise.resolve(fn());
+    } finally {
+      this._connection.clearBatch();
+      if (parts.length) this._sendBatch(parts);
+    }
+  }
+
+  private async _sendBatch(parts: BatchPart[]) {
+    const prepared = await Promise.all(parts.map(part => part.prepared));
+    parts = parts.filter(
+      (part, i) =>
+        prepared[i] && !(part.options.signal && part.options.signal.aborted)
+    );
+    if (!parts.length) return;
+    const start = Date.now();
+    try {
+      const req = await toBatch(parts.map(part => part.options));
+      const responses = await this._connection.request(
+        {
+          ...req,
+          method: "POST",
+          path: "/_api/batch",
+          isBinary: true,
+          expectBinary: true
+        },
+        res => fromBatch(res.body, res.headers["content-type"])
+      );
+      const durationMs = Date.now() - start;
+      parts.forEach((part, i) => {
+        const res = responses[i];
+        if (res) part.resolve(res as any, durationMs);
+        else part.reject(new Error("Batch response is missing a part"));
+      });
+    } catch (err) {
+      for (const part of parts) part.reject(err);
+    }
+  }
+  //#endregion
+
+  //#region jobs
+  job(jobId: string): ArangoJob {
+    return new ArangoJob(this._connection, jobId);
+  }
+
+  listPendingJobs(count?: number): Promise<string[]> {
+    return this._connection.request(
+      {
+        path: "/_api/job/pending",
+        qs: count === undefined ? undefined : { count }
+      },
+      res => res.body
+    );
+  }
+
+  listCompletedJobs(count?: number): Promise<string[]> {
+    return this._connection.request(
+      {
+        path: "/_api/job/done",
+        qs: count === undefined ? undefined : { count }
+      },
+      res => res.body
+    );
+  }
+
+  deleteExpiredJobs(threshold: number): Promise<boolean> {
+    return this._connection.request(
+      {
+        method: "DELETE",
+        path: "/_api/job/expired",
+        qs: { stamp: threshold / 1000 }
+      },
+      res => res.body.result
+    );
+  }
+
+  deleteAllJobs(): Promise<boolean> {
+    return this._connection.request(
+      {
+        method: "DELETE",
+        path: "/_api/job/all"
+      },
+      res => res.body.result
+    );
+  }
+  //#endregion
+
   //#region graphs
   graph(graphName: string): Graph {
     return new Graph(this._connection, graphName);
@@ -516,22 +806,29 @@ export class Database {
     } else if (isAqlLiteral(query)) {
       query = query.toAQL();
     }
-    const { allowDirtyRead = undefined, timeout = undefined, ...extra } =
-      opts || {};
+    const {
+      allowDirtyRead = undefined,
+      timeout = undefined,
+      prefetch = undefined,
+      signal = undefined,
+      ...extra
+    } = opts || {};
     return this._connection.request(
       {
         method: "POST",
         path: "/_api/cursor",
         body: { ...extra, query, bindVars },
         allowDirtyRead,
-        timeout
+        timeout,
+        signal
       },
       res =>
         new ArrayCursor(
           this._connection,
           res.body,
           res.arangojsHostId,
-          allowDirtyRead
+          allowDirtyRead,
+          { prefetch, signal }
         )
     );
   }
@@ -1018,6 +1315,18 @@ export class Database {
     );
   }
 
+  downloadServiceStream(mount: string): Promise<Readable | Blob> {
+    return this._connection.request(
+      {
+        method: "POST",
+        path: "/_api/foxx/download",
+        qs: { mount },
+        expectStream: true
+      },
+      res => res.body
+    );
+  }
+
   commitLocalServiceState(replace: boolean = false): Promise<void> {
     return this._connection.request(
       {
@@ -59,6 +59,10 @@ export function isArangoError(err: any): err is ArangoError {
   return Boolean(err && err.isArangoError);
 }
 
+export function isAbortError(err: any): err is AbortError {
+  return Boolean(err && err.isAbortError);
+}
+
 export class ArangoError extends ExtendableError {
   name = "ArangoError";
   isArangoError = true;
@@ -99,3 +103,43 @@ export class HttpError extends ExtendableError {
     }
   }
 }
+
+export class AbortError extends ExtendableError {
+  name = "AbortError";
+  isAbortError = true;
+  constructor() {
+    super();
+    this.message = "The request was aborted";
+    const err = new Error(this.message);
+    err.name = this.name;
+    for (const key of nativeErrorKeys) {
+      if (err[key]) this[key] = err[key]!;
+    }
+  }
+}
+
+export class QueueFullError extends ExtendableError {
+  name = "QueueFullError";
+  constructor() {
+    super();
+    this.message = "The request queue is full";
+    const err = new Error(this.message);
+    err.name = this.name;
+    for (const key of nativeErrorKeys) {
+      if (err[key]) this[key] = err[key]!;
+    }
+  }
+}
+
+export class QueueTimeoutError extends ExtendableError {
+  name = "QueueTimeoutError";
+  constructor() {
+    super();
+    this.message = "The request timed out waiting in the queue";
+    const err = new Error(this.message);
+    err.name = this.name;
+    for (const key of nativeErrorKeys) {
+      if (err[key]) this[key] = err[key]!;
+    }
+  }
+}
@@ -0,0 +1,148 @@
+import { RequestInterceptor, RequestTask } from "./connection";
+import { ArangojsResponse } from "./util/request";
+
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_ERROR = 2;
+
+const FIXED_PATHS = [
+  "/_api/database/current",
+  "/_api/database/user",
+  "/_api/query/current",
+  "/_api/query/properties",
+  "/_api/query/slow",
+  "/_api/transaction/begin"
+];
+
+const PATH_TEMPLATES = [
+  "/_api/document/{collection}/{key}",
+  "/_api/document/{collection}",
+  "/_api/edge/{collection}/{key}",
+  "/_api/edges/{collection}",
+  "/_api/collection/{collection}/{action}",
+  "/_api/collection/{collection}",
+  "/_api/cursor/{id}",
+  "/_api/index/{collection}/{id}",
+  "/_api/view/{view}/{action}",
+  "/_api/view/{view}",
+  "/_api/analyzer/{analyzer}",
+  "/_api/database/{database}",
+  "/_api/gharial/{graph}/vertex/{collection}/{key}",
+  "/_api/gharial/{graph}/vertex/{collection}",
+  "/_api/gharial/{graph}/edge/{collection}/{key}",
+  "/_api/gharial/{graph}/edge/{collection}",
+  "/_api/gharial/{graph}/{action}",
+  "/_api/gharial/{graph}",
+  "/_api/transaction/{id}",
+  "/_api/query/{id}",
+  "/_api/aqlfunction/{name}",
+  "/_api/foxx/scripts/{name}"
+].map(template => ({
+  template,
+  pattern: new RegExp(`^${template.replace(/\{\w+\}/g, "[^/]+")}$`)
+}));
+
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+  traceFlags: number;
+}
+
+export interface Span {
+  setAttribute(key: string, value: string | number | boolean): any;
+  setStatus(status: { code: number; message?: string }): any;
+  recordException?(err: Error): any;
+  spanContext?(): SpanContext;
+  context?(): SpanContext;
+  end(): void;
+}
+
+export interface Tracer {
+  startSpan(
+    name: string,
+    options?: {
+      kind?: number;
+      attributes?: { [key: string]: string | number | boolean };
+    }
+  ): Span;
+}
+
+export function getPathTemplate(pathname: string): string {
+  const path =
+    pathname.replace(/^\/_db\/[^/]+/, "").replace(/\/{2,}/g, "/") || "/";
+  if (FIXED_PATHS.includes(path)) return path;
+  for (const { template, pattern } of PATH_TEMPLATES) {
+    if (pattern.test(path)) return template;
+  }
+  return path;
+}
+
+function getDatabaseName(pathname: string): string | undefined {
+  const match = pathname.match(/^\/_db\/([^/]+)/);
+  return match ? decodeURIComponent(match[1]) : undefined;
+}
+
+function getQuery(task: RequestTask): string | undefined {
+  const { method, url, body } = task.options;
+  if (method !== "POST" || !/\/_api\/cursor$/.test(url.pathname)) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(body).query;
+  } catch (e) {
+    return undefined;
+  }
+}
+
+function formatTraceparent({ traceId, spanId, traceFlags }: SpanContext) {
+  const flags = `0${(traceFlags & 0xff).toString(16)}`.slice(-2);
+  return `00-${traceId}-${spanId}-${flags}`;
+}
+
+export function createTracingInterceptor(tracer: Tracer): RequestInterceptor {
+  const spans = new WeakMap<RequestTask, Span>();
+  const endSpan = (task: RequestTask, err?: Error) => {
+    const span = spans.get(task);
+    if (!span) return;
+    spans.delete(task);
+    span.setAttribute("arangodb.retries", task.retries);
+    if (err) {
+      if (span.recordException) span.recordException(err);
+      span.setStatus({ code: SPAN_STATUS_ERROR, message: err.message });
+    }
+    span.end();
+  };
+  return {
+    beforeRequest(task) {
+      const { method, url, headers } = task.options;
+      const template = getPathTemplate(url.pathname);
+      const attributes: { [key: string]: string | number | boolean } = {
+        "db.system": "arangodb",
+        "http.method": method,
+        "http.route": template
+      };
+      const databaseName = getDatabaseName(url.pathname);
+      if (databaseName) attributes["db.name"] = databaseName;
+      const query = getQuery(task);
+      if (query) attributes["db.statement"] = query;
+      const span = tracer.startSpan(`${method} ${template}`, {
+        kind: SPAN_KIND_CLIENT,
+        attributes
+      });
+      spans.set(task, span);
+      const context = span.spanContext ? span.spanContext() : span.context!();
+      headers["traceparent"] = formatTraceparent(context);
+    },
+    afterResponse(res: ArangojsResponse, _durationMs, task) {
+      const span = spans.get(task);
+      if (!span) return;
+      span.setAttribute("http.status_code", res.statusCode!);
+      if (res.arangojsHostId !== undefined) {
+        span.setAttribute("arangodb.host", res.arangojsHostId);
+      }
+      if (res.statusCode! < 400) endSpan(task);
+    },
+    onError(err, task) {
+      endSpan(task, err);
+    }
+  };
+}
@@ -0,0 +1,76 @@
+import { AsyncMode, Connection, RequestOptions } from "./connection";
+
+export type JobStatus = "pending" | "done";
+
+export type AsyncJobOptions<T extends AsyncMode = AsyncMode> = {
+  async: T;
+};
+
+const NO_CONTENT = 204;
+const ASYNC_ID_HEADER = "x-arango-async-id";
+
+export async function createJob(
+  connection: Connection,
+  options: RequestOptions,
+  asyncMode: AsyncMode
+): Promise<ArangoJob | undefined> {
+  const res = await connection.request({ ...options, async: asyncMode });
+  if (asyncMode !== "store") return undefined;
+  const jobId = res.headers[ASYNC_ID_HEADER];
+  if (!jobId) {
+    throw new Error(
+      `No async job ID returned for ${options.method} ${options.path}`
+    );
+  }
+  return new ArangoJob(connection, String(jobId));
+}
+
+export class ArangoJob {
+  isArangoJob: true = true;
+  private _connection: Connection;
+  id: string;
+
+  constructor(connection: Connection, id: string) {
+    this._connection = connection;
+    this.id = id;
+  }
+
+  getStatus(): Promise<JobStatus> {
+    return this._connection.request(
+      {
+        path: `/_api/job/${this.id}`
+      },
+      res => (res.statusCode === NO_CONTENT ? "pending" : "done")
+    );
+  }
+
+  getResult<T = any>(): Promise<T | undefined> {
+    return this._connection.request(
+      {
+        method: "PUT",
+        path: `/_api/job/${this.id}`
+      },
+      res => (res.statusCode === NO_CONTENT ? undefined : res.body)
+    );
+  }
+
+  cancel(): Promise<boolean> {
+    return this._connection.request(
+      {
+        method: "PUT",
+        path: `/_api/job/${this.id}/cancel`
+      },
+      res => res.body.result
+    );
+  }
+
+  delete(): Promise<boolean> {
+    return this._connection.request(
+      {
+        method: "DELETE",
+        path: `/_api/job/${this.id}`
+      },
+      res => res.body.result
+    );
+  }
+}
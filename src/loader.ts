@@ -0,0 +1,162 @@
+import { DOCUMENT_NOT_FOUND, DocumentHandle } from "./collection";
+import { Connection } from "./connection";
+import { ArangoError, isArangoError } from "./error";
+import { Document } from "./util/types";
+
+export type DocumentLoaderOptions = {
+  cache?: boolean;
+  maxBatchSize?: number;
+  allowDirtyRead?: boolean;
+};
+
+type PendingLoad<T extends object> = {
+  key: string;
+  resolve: (doc: Document<T>) => void;
+  reject: (err: Error) => void;
+};
+
+const NOT_FOUND = 404;
+export class DocumentLoader<T extends object = any> {
+  private _connection: Connection;
+  private _collectionName: string;
+  private _maxBatchSize: number;
+  private _allowDirtyRead?: boolean;
+  private _cache?: Map<string, Promise<Document<T>>>;
+  private _pending = new Map<string, Promise<Document<T>>>();
+  private _queue: PendingLoad<T>[] = [];
+
+  constructor(
+    connection: Connection,
+    collectionName: string,
+    options: DocumentLoaderOptions = {}
+  ) {
+    this._connection = connection;
+    this._collectionName = collectionName;
+    this._maxBatchSize = options.maxBatchSize || Infinity;
+    this._allowDirtyRead = options.allowDirtyRead;
+    if (options.cache !== false) this._cache = new Map();
+  }
+
+  private _documentKey(documentHandle: DocumentHandle): string {
+    if (typeof documentHandle !== "string") {
+      if (documentHandle._key) return documentHandle._key;
+      if (documentHandle._id) return this._documentKey(documentHandle._id);
+      throw new Error("Document handle must be a document or string");
+    }
+    const i = documentHandle.indexOf("/");
+    if (i === -1) return documentHandle;
+    if (documentHandle.slice(0, i) !== this._collectionName) {
+      throw new Error(
+        `Document "${documentHandle}" does not belong to collection "${this._collectionName}"`
+      );
+    }
+    return documentHandle.slice(i + 1);
+  }
+
+  load(documentHandle: DocumentHandle, graceful?: false): Promise<Document<T>>;
+  load(
+    documentHandle: DocumentHandle,
+    graceful: boolean
+  ): Promise<Document<T> | null>;
+  load(
+    documentHandle: DocumentHandle,
+    graceful: boolean = false
+  ): Promise<Document<T> | null> {
+    let key: string;
+    try {
+      key = this._documentKey(documentHandle);
+    } catch (e) {
+      return Promise.reject(e);
+    }
+    let result = this._cache && this._cache.get(key);
+    if (!result) result = this._pending.get(key) || this._schedule(key);
+    if (!graceful) return result;
+    return result.catch(err => {
+      if (isArangoError(err) && err.errorNum === DOCUMENT_NOT_FOUND) {
+        return null;
+      }
+      throw err;
+    });
+  }
+
+  loadMany(
+    documentHandles: DocumentHandle[],
+    graceful: boolean = false
+  ): Promise<(Document<T> | null)[]> {
+    return Promise.all(
+      documentHandles.map(documentHandle => this.load(documentHandle, graceful))
+    );
+  }
+
+  clear(documentHandle: DocumentHandle) {
+    if (this._cache) this._cache.delete(this._documentKey(documentHandle));
+    return this;
+  }
+
+  clearAll() {
+    if (this._cache) this._cache.clear();
+    return this;
+  }
+
+  private _schedule(key: string) {
+    const result = new Promise<Document<T>>((resolve, reject) => {
+      this._queue.push({ key, resolve, reject });
+    });
+    if (this._queue.length === 1) {
+      Promise.resolve().then(() => this._dispatch());
+    }
+    this._pending.set(key, result);
+    if (this._cache) {
+      const cache = this._cache;
+      cache.set(key, result);
+      result.catch(err => {
+        if (isArangoError(err) && err.errorNum === DOCUMENT_NOT_FOUND) return;
+        if (cache.get(key) === result) cache.delete(key);
+      });
+    }
+    return result;
+  }
+
+  private _dispatch() {
+    const queue = this._queue;
+    this._queue = [];
+    this._pending.clear();
+    for (let i = 0; i < queue.length; i += this._maxBatchSize) {
+      this._fetch(queue.slice(i, i + this._maxBatchSize));
+    }
+  }
+
+  private _fetch(loads: PendingLoad<T>[]) {
+    this._connection
+      .request({
+        method: "PUT",
+        path: `/_api/document/${this._collectionName}`,
+        qs: { onlyget: true },
+        body: loads.map(load => load.key),
+        allowDirtyRead: this._allowDirtyRead
+      })
+      .then(
+        res => {
+          loads.forEach((load, i) => {
+            const doc = res.body[i];
+            if (!doc || !doc.error) {
+              load.resolve(doc);
+              return;
+            }
+            const statusCode =
+              doc.errorNum === DOCUMENT_NOT_FOUND ? NOT_FOUND : res.statusCode;
+            load.reject(
+              new ArangoError({
+                statusCode,
+                headers: res.headers,
+                body: { code: statusCode, ...doc }
+              })
+            );
+          });
+        },
+        err => {
+          for (const load of loads) load.reject(err);
+        }
+      );
+  }
+}
@@ -0,0 +1,57 @@
+import { ConnectionStats, HostStats } from "./connection";
+
+const COUNTERS: [keyof HostStats, string, string][] = [
+  ["requests", "requests_total", "Number of requests sent to the server."],
+  ["errors", "errors_total", "Number of failed requests."],
+  ["retries", "retries_total", "Number of retried requests."],
+  ["failovers", "failovers_total", "Number of failovers to another server."],
+  [
+    "leaderRedirects",
+    "leader_redirects_total",
+    "Number of requests redirected to the leader."
+  ]
+];
+
+function escapeLabel(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+export function formatPrometheusMetrics(
+  stats: ConnectionStats,
+  prefix: string = "arangojs"
+): string {
+  const lines: string[] = [];
+  const metric = (name: string, type: string, help: string) => {
+    lines.push(`# HELP ${prefix}_${name} ${help}`);
+    lines.push(`# TYPE ${prefix}_${name} ${type}`);
+  };
+  metric("queue_length", "gauge", "Number of queued requests.");
+  lines.push(`${prefix}_queue_length ${stats.queueLength}`);
+  metric("active_tasks", "gauge", "Number of requests in progress.");
+  lines.push(`${prefix}_active_tasks ${stats.activeTasks}`);
+  for (const [key, name, help] of COUNTERS) {
+    metric(name, "counter", help);
+    for (const host of stats.hosts) {
+      const label = `host="${escapeLabel(host.url)}"`;
+      lines.push(`${prefix}_${name}{${label}} ${host[key]}`);
+    }
+  }
+  const name = `${prefix}_request_duration_seconds`;
+  metric("request_duration_seconds", "histogram", "Request duration.");
+  for (const host of stats.hosts) {
+    const label = `host="${escapeLabel(host.url)}"`;
+    const { buckets, counts, count, sum } = host.latency;
+    let total = 0;
+    buckets.forEach((bound, i) => {
+      total += counts[i];
+      lines.push(`${name}_bucket{${label},le="${bound / 1000}"} ${total}`);
+    });
+    lines.push(`${name}_bucket{${label},le="+Inf"} ${count}`);
+    lines.push(`${name}_sum{${label}} ${sum / 1000}`);
+    lines.push(`${name}_count{${label}} ${count}`);
+  }
+  return lines.join("\n") + "\n";
+}
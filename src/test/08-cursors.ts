@@ -1,4 +1,5 @@
 import { expect } from "chai";
+import { Readable } from "stream";
 import { aql, Database } from "../arangojs";
 import { ArrayCursor } from "../cursor";
 
@@ -210,6 +211,114 @@ describe("Cursor API", () => {
       expect(await cursor.nextBatch()).to.eql([7, 8, 9, 10]);
     });
   });
+  describe("cursor[Symbol.asyncIterator]", () => {
+    it("iterates over all results", async () => {
+      const results: any[] = [];
+      for await (const value of cursor) {
+        results.push(value);
+      }
+      expect(results).to.eql(aqlResult);
+      expect(cursor.hasNext()).to.equal(false);
+    });
+    it("fetches additional batches as needed", async () => {
+      const cursor = await db.query(aqlQuery, { batchSize: 2 });
+      const results: any[] = [];
+      for await (const value of cursor) {
+        results.push(value);
+      }
+      expect(results).to.eql(aqlResult);
+    });
+    it("kills the cursor when the loop is exited early", async () => {
+      const cursor = await db.query(aqlQuery, { batchSize: 2 });
+      for await (const value of cursor) {
+        if (value === 3) break;
+      }
+      expect(cursor).to.have.property("_hasMore", false);
+    });
+    it("kills the cursor when the loop throws", async () => {
+      const cursor = await db.query(aqlQuery, { batchSize: 2 });
+      try {
+        for await (const value of cursor) {
+          if (value === 3) throw new Error("Boom");
+        }
+      } catch (e) {
+        expect(e).to.have.property("message", "Boom");
+      }
+      expect(cursor).to.have.property("_hasMore", false);
+    });
+  });
+  describe("cursor.batches", () => {
+    it("iterates over all batches", async () => {
+      const cursor = await db.query(aql`FOR i IN 1..10 RETURN i`, {
+        batchSize: 4
+      });
+      const batches: any[][] = [];
+      for await (const batch of cursor.batches) {
+        batches.push(batch);
+      }
+      expect(batches).to.eql([[1, 2, 3, 4], [5, 6, 7, 8], [9, 10]]);
+    });
+    it("kills the cursor when the loop is exited early", async () => {
+      const cursor = await db.query(aql`FOR i IN 1..10 RETURN i`, {
+        batchSize: 4
+      });
+      for await (const batch of cursor.batches) {
+        expect(batch).to.eql([1, 2, 3, 4]);
+        break;
+      }
+      expect(cursor).to.have.property("_hasMore", false);
+    });
+  });
+  describe("cursor.stream", () => {
+    it("streams all results", async () => {
+      const cursor = await db.query(aqlQuery, { batchSize: 2 });
+      const results: any[] = [];
+      await new Promise((resolve, reject) => {
+        (cursor.stream() as Readable)
+          .on("data", value => results.push(value))
+          .on("end", resolve)
+          .on("error", reject);
+      });
+      expect(results).to.eql(aqlResult);
+    });
+    it("kills the cursor when the stream is destroyed", async () => {
+      const cursor = await db.query(aqlQuery, { batchSize: 2 });
+      const stream = cursor.stream() as Readable;
+      await new Promise(resolve => {
+        stream.on("close", resolve);
+        stream.destroy();
+      });
+      expect(cursor).to.have.property("_hasMore", false);
+    });
+    it("emits null results as undefined", async () => {
+      const cursor = await db.query(aql`FOR i IN [1, null, 2] RETURN i`);
+      const results: any[] = [];
+      for await (const value of cursor.stream() as Readable) {
+        results.push(value);
+      }
+      expect(results).to.eql([1, undefined, 2]);
+    });
+  });
+  describe("with prefetch", () => {
+    it("fetches the next batch in the background", async () => {
+      const cursor = await db.query(aql`FOR i IN 1..10 RETURN i`, {
+        batchSize: 5,
+        prefetch: true
+      });
+      expect((cursor as any)._fetching).to.be.an.instanceof(Promise);
+      await (cursor as any)._fetching;
+      expect((cursor as any)._result).to.eql([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+      expect(cursor).to.have.property("_hasMore", false);
+    });
+    it("returns all results", async () => {
+      const cursor = await db.query(aqlQuery, { batchSize: 2, prefetch: 2 });
+      const results: any[] = [];
+      for await (const value of cursor) {
+        results.push(value);
+      }
+      expect(results).to.eql(aqlResult);
+    });
+  });
   describe("cursor.kill", () => {
     it("kills the cursor", async () => {
       const cursor = await db.query(aql`FOR i IN 1..5 RETURN i`, {
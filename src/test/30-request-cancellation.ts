@@ -0,0 +1,83 @@
+import { expect } from "chai";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { Connection } from "../connection";
+import { isAbortError } from "../error";
+import { createAbortController } from "./util/stubs";
+
+describe("Request cancellation", () => {
+  describe("with an aborted signal", () => {
+    it("rejects without performing the request", async () => {
+      const conn = new Connection();
+      let called = false;
+      (conn as any)._hosts = [
+        () => {
+          called = true;
+        }
+      ];
+      const controller = createAbortController();
+      controller.abort();
+      try {
+        await conn.request({ signal: controller.signal });
+      } catch (e) {
+        expect(isAbortError(e)).to.equal(true);
+        expect(called).to.equal(false);
+        return;
+      }
+      expect.fail();
+    });
+  });
+  describe("with a queued request", () => {
+    it("removes the request from the queue", async () => {
+      const conn = new Connection();
+      (conn as any)._maxTasks = 1;
+      (conn as any)._hosts = [() => undefined];
+      conn.request({});
+      const controller = createAbortController();
+      const promise = conn.request({ signal: controller.signal });
+      expect((conn as any)._queue.length).to.equal(1);
+      controller.abort();
+      try {
+        await promise;
+      } catch (e) {
+        expect(isAbortError(e)).to.equal(true);
+        expect((conn as any)._queue.length).to.equal(0);
+        expect(controller.listeners).to.have.lengthOf(0);
+        return;
+      }
+      expect.fail();
+    });
+  });
+  describe("with an active request", () => {
+    let server: Server;
+    let url: string;
+    before(done => {
+      server = createServer(() => undefined);
+      server.listen(0, "127.0.0.1", () => {
+        const { port } = server.address() as AddressInfo;
+        url = `http://127.0.0.1:${port}`;
+        done();
+      });
+    });
+    after(done => {
+      server.close(() => done());
+    });
+    it("aborts the underlying request", async () => {
+      const conn = new Connection({ url: [url, "http://127.0.0.1:1"] });
+      const controller = createAbortController();
+      const promise = conn.request({ signal: controller.signal });
+      setTimeout(() => controller.abort(), 50);
+      try {
+        await promise;
+      } catch (e) {
+        expect(isAbortError(e)).to.equal(true);
+        expect(conn.getActiveHost()).to.equal(0);
+        expect(controller.listeners).to.have.lengthOf(0);
+        return;
+      } finally {
+        conn.close();
+      }
+      expect.fail();
+    });
+  });
+});
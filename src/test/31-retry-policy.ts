@@ -0,0 +1,169 @@
+import { expect } from "chai";
+import { Connection, isTransientError } from "../connection";
+import { createHost, response, stubHosts, systemError } from "./util/stubs";
+
+const CONFLICT = {
+  error: true,
+  code: 409,
+  errorNum: 1200,
+  errorMessage: "write-write conflict"
+};
+
+describe("Retry policy", () => {
+  function createConnection(responses: any[], config: any = {}) {
+    const conn = new Connection({
+      retryPolicy: { retries: 2, minDelay: 1, maxDelay: 5 },
+      ...config
+    });
+    const calls: string[] = [];
+    stubHosts(conn, [
+      createHost(({ method }) => {
+        calls.push(method);
+        return responses.shift();
+      })
+    ]);
+    return { conn, calls };
+  }
+  it("retries idempotent requests on ECONNRESET", async () => {
+    const { conn, calls } = createConnection([
+      systemError("ECONNRESET", "socket hang up"),
+      systemError("ECONNRESET", "socket hang up"),
+      response(200, { ok: true })
+    ]);
+    const res = await conn.request({ method: "GET" });
+    expect(res.body).to.eql({ ok: true });
+    expect(calls).to.have.lengthOf(3);
+  });
+  it("does not retry non-idempotent requests on ECONNRESET", async () => {
+    const { conn, calls } = createConnection([
+      systemError("ECONNRESET", "socket hang up"),
+      response(200, { ok: true })
+    ]);
+    try {
+      await conn.request({ method: "POST" });
+    } catch (e) {
+      expect(e).to.have.property("code", "ECONNRESET");
+      expect(calls).to.have.lengthOf(1);
+      return;
+    }
+    expect.fail();
+  });
+  it("retries idempotent requests on 503 without leader endpoint", async () => {
+    const { conn, calls } = createConnection([
+      response(503, {}),
+      response(200, { ok: true })
+    ]);
+    const res = await conn.request({ method: "GET" });
+    expect(res.body).to.eql({ ok: true });
+    expect(calls).to.have.lengthOf(2);
+  });
+  it("does not retry non-idempotent requests on 503", async () => {
+    const { conn, calls } = createConnection([
+      response(503, {}),
+      response(200, { ok: true })
+    ]);
+    try {
+      await conn.request({ method: "POST" });
+    } catch (e) {
+      expect(e).to.have.property("statusCode", 503);
+      expect(calls).to.have.lengthOf(1);
+      return;
+    }
+    expect.fail();
+  });
+  it("does not retry PUT requests by default", async () => {
+    const { conn, calls } = createConnection([
+      systemError("ECONNRESET", "socket hang up"),
+      response(200, { ok: true })
+    ]);
+    try {
+      await conn.request({ method: "PUT" });
+    } catch (e) {
+      expect(e).to.have.property("code", "ECONNRESET");
+      expect(calls).to.have.lengthOf(1);
+      return;
+    }
+    expect.fail();
+  });
+  it("retries idempotent requests on write-write conflicts", async () => {
+    const { conn, calls } = createConnection([
+      response(409, CONFLICT),
+      response(200, { ok: true })
+    ]);
+    const res = await conn.request({ method: "DELETE" });
+    expect(res.body).to.eql({ ok: true });
+    expect(calls).to.have.lengthOf(2);
+  });
+  it("does not retry failed preconditions", async () => {
+    const { conn, calls } = createConnection([
+      response(412, { ...CONFLICT, code: 412 }),
+      response(200, { ok: true })
+    ]);
+    try {
+      await conn.request({ method: "DELETE" });
+    } catch (e) {
+      expect(e.statusCode).to.equal(412);
+      expect(calls).to.have.lengthOf(1);
+      return;
+    }
+    expect.fail();
+  });
+  it("gives up after the configured number of retries", async () => {
+    const { conn, calls } = createConnection([
+      response(503, {}),
+      response(503, {}),
+      response(503, {}),
+      response(200, { ok: true })
+    ]);
+    try {
+      await conn.request({ method: "GET" });
+    } catch (e) {
+      expect(e).to.have.property("statusCode", 503);
+      expect(calls).to.have.lengthOf(3);
+      return;
+    }
+    expect.fail();
+  });
+  it("can be disabled per request", async () => {
+    const { conn, calls } = createConnection([
+      response(503, {}),
+      response(200, { ok: true })
+    ]);
+    try {
+      await conn.request({ method: "GET", retryPolicy: false });
+    } catch (e) {
+      expect(e).to.have.property("statusCode", 503);
+      expect(calls).to.have.lengthOf(1);
+      return;
+    }
+    expect.fail();
+  });
+  it("can be enabled per request", async () => {
+    const { conn, calls } = createConnection(
+      [response(503, {}), response(200, { ok: true })],
+      { retryPolicy: undefined }
+    );
+    const res = await conn.request({
+      method: "GET",
+      retryPolicy: { minDelay: 1 }
+    });
+    expect(res.body).to.eql({ ok: true });
+    expect(calls).to.have.lengthOf(2);
+  });
+  it("supports a custom shouldRetry function", async () => {
+    const { conn, calls } = createConnection([
+      response(500, {}),
+      response(200, { ok: true })
+    ]);
+    const res = await conn.request({
+      method: "GET",
+      retryPolicy: {
+        minDelay: 1,
+        shouldRetry: (err, method) =>
+          isTransientError(err, method) || (err as any).statusCode === 500
+      }
+    });
+    expect(res.body).to.eql({ ok: true });
+    expect(calls).to.have.lengthOf(2);
+  });
+});
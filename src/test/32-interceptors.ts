@@ -0,0 +1,130 @@
+import { expect } from "chai";
+import { Database } from "../arangojs";
+import { Connection } from "../connection";
+import { createHost, response, stubHosts } from "./util/stubs";
+
+describe("Request interceptors", () => {
+  let db: Database;
+  let conn: Connection;
+  let calls: any[];
+  let responses: any[];
+  beforeEach(() => {
+    db = new Database();
+    conn = (db as any)._connection;
+    calls = [];
+    responses = [];
+    stubHosts(conn, [
+      createHost(options => {
+        calls.push(options);
+        return responses.shift();
+      })
+    ]);
+  });
+  describe("beforeRequest", () => {
+    it("can modify the request headers", async () => {
+      responses.push(response(200, { ok: true }));
+      db.addInterceptor({
+        beforeRequest(task) {
+          task.options.headers["x-trace-id"] = "abc";
+        }
+      });
+      await conn.request({ path: "/_api/version" });
+      expect(calls).to.have.lengthOf(1);
+      expect(calls[0].headers).to.have.property("x-trace-id", "abc");
+    });
+    it("can short-circuit the request", async () => {
+      db.addInterceptor({
+        beforeRequest() {
+          return response(200, { cached: true }) as any;
+        }
+      });
+      const res = await conn.request({ path: "/_api/version" });
+      expect(res.body).to.eql({ cached: true });
+      expect(calls).to.have.lengthOf(0);
+    });
+    it("can replay a response received by afterResponse", async () => {
+      responses.push(response(200, { ok: true }));
+      let cached: any;
+      db.addInterceptor({
+        beforeRequest() {
+          return cached;
+        },
+        afterResponse(res) {
+          cached = res;
+        }
+      });
+      const first = await conn.request({ path: "/_api/version" });
+      const second = await conn.request({ path: "/_api/version" });
+      expect(first.body).to.eql({ ok: true });
+      expect(second.body).to.eql({ ok: true });
+      expect(calls).to.have.lengthOf(1);
+    });
+  });
+  describe("afterResponse", () => {
+    it("receives the response and duration", async () => {
+      responses.push(response(200, { ok: true }));
+      let duration: number | undefined;
+      db.addInterceptor({
+        afterResponse(res, durationMs) {
+          expect(res.statusCode).to.equal(200);
+          duration = durationMs;
+        }
+      });
+      const res = await conn.request({ path: "/_api/version" });
+      expect(res.body).to.eql({ ok: true });
+      expect(duration).to.be.a("number");
+    });
+    it("can replace the response", async () => {
+      responses.push(response(200, { ok: true }));
+      db.addInterceptor({
+        afterResponse() {
+          return response(200, { replaced: true }) as any;
+        }
+      });
+      const res = await conn.request({ path: "/_api/version" });
+      expect(res.body).to.eql({ replaced: true });
+    });
+  });
+  describe("onError", () => {
+    it("can rethrow a different error", async () => {
+      responses.push(response(500, {}));
+      db.addInterceptor({
+        onError() {
+          throw new Error("Wrapped");
+        }
+      });
+      try {
+        await conn.request({ path: "/_api/version" });
+      } catch (e) {
+        expect(e).to.have.property("message", "Wrapped");
+        return;
+      }
+      expect.fail();
+    });
+    it("can recover with a response", async () => {
+      responses.push(new Error("Boom"));
+      db.addInterceptor({
+        onError(err) {
+          expect(err).to.have.property("message", "Boom");
+          return response(200, { fallback: true }) as any;
+        }
+      });
+      const res = await conn.request({ path: "/_api/version" });
+      expect(res.body).to.eql({ fallback: true });
+    });
+  });
+  describe("db.removeInterceptor", () => {
+    it("removes the interceptor", async () => {
+      responses.push(response(200, { ok: true }));
+      const interceptor = {
+        beforeRequest() {
+          return response(200, { cached: true }) as any;
+        }
+      };
+      db.addInterceptor(interceptor);
+      db.removeInterceptor(interceptor);
+      const res = await conn.request({ path: "/_api/version" });
+      expect(res.body).to.eql({ ok: true });
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { expect } from "chai";
+import { aql, Database } from "../arangojs";
+import { createTracingInterceptor, getPathTemplate } from "../instrumentation";
+import { createHost, response, stubHosts } from "./util/stubs";
+
+function createTracer() {
+  const spans: any[] = [];
+  return {
+    spans,
+    startSpan(name: string, options: any = {}) {
+      const span = {
+        name,
+        kind: options.kind,
+        attributes: { ...options.attributes },
+        status: undefined as any,
+        ended: false,
+        setAttribute(key: string, value: any) {
+          span.attributes[key] = value;
+        },
+        setStatus(status: any) {
+          span.status = status;
+        },
+        spanContext() {
+          return {
+            traceId: "0af7651916cd43dd8448eb211c80319c",
+            spanId: "b7ad6b7169203331",
+            traceFlags: 1
+          };
+        },
+        end() {
+          span.ended = true;
+        }
+      };
+      spans.push(span);
+      return span;
+    }
+  };
+}
+
+describe("Instrumentation", () => {
+  describe("getPathTemplate", () => {
+    it("replaces path parameters", () => {
+      expect(getPathTemplate("/_db/test/_api/document/users/123")).to.equal(
+        "/_api/document/{collection}/{key}"
+      );
+      expect(getPathTemplate("/_api/cursor/12345")).to.equal(
+        "/_api/cursor/{id}"
+      );
+      expect(getPathTemplate("/_api/collection/users/properties")).to.equal(
+        "/_api/collection/{collection}/{action}"
+      );
+    });
+    it("keeps fixed paths", () => {
+      expect(getPathTemplate("/_db/test/_api/query/slow")).to.equal(
+        "/_api/query/slow"
+      );
+      expect(getPathTemplate("/_api/version")).to.equal("/_api/version");
+    });
+  });
+  describe("createTracingInterceptor", () => {
+    let db: Database;
+    let tracer: ReturnType<typeof createTracer>;
+    let calls: any[];
+    let responses: any[];
+    beforeEach(() => {
+      db = new Database();
+      db.useDatabase("test");
+      tracer = createTracer();
+      db.addInterceptor(createTracingInterceptor(tracer));
+      calls = [];
+      responses = [];
+      stubHosts(db, [
+        createHost(options => {
+          calls.push(options);
+          return responses.shift();
+        })
+      ]);
+    });
+    it("creates a span per request", async () => {
+      responses.push(response(200, { _key: "abc" }));
+      await db.collection("users").document("abc");
+      expect(tracer.spans).to.have.lengthOf(1);
+      const [span] = tracer.spans;
+      expect(span.name).to.equal("GET /_api/document/{collection}/{key}");
+      expect(span.kind).to.equal(2);
+      expect(span.attributes).to.include({
+        "db.system": "arangodb",
+        "db.name": "test",
+        "http.method": "GET",
+        "http.route": "/_api/document/{collection}/{key}",
+        "http.status_code": 200,
+        "arangodb.host": 0,
+        "arangodb.retries": 0
+      });
+      expect(span.ended).to.equal(true);
+    });
+    it("propagates the traceparent header", async () => {
+      responses.push(response(200, {}));
+      await db.version();
+      expect(calls[0].headers).to.have.property(
+        "traceparent",
+        "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01"
+      );
+    });
+    it("records the query text for AQL queries", async () => {
+      responses.push(response(201, { result: [1], hasMore: false }));
+      await db.query(aql`RETURN 1`);
+      expect(tracer.spans[0].attributes).to.have.property(
+        "db.statement",
+        "RETURN 1"
+      );
+    });
+    it("marks failed requests as errors", async () => {
+      responses.push(
+        response(404, {
+          error: true,
+          code: 404,
+          errorNum: 1202,
+          errorMessage: "document not found"
+        })
+      );
+      try {
+        await db.collection("users").document("abc");
+      } catch (e) {
+        const [span] = tracer.spans;
+        expect(span.ended).to.equal(true);
+        expect(span.status).to.eql({ code: 2, message: "document not found" });
+        return;
+      }
+      expect.fail();
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { expect } from "chai";
+import { Connection } from "../connection";
+import { createHost, response, stubHosts, systemError } from "./util/stubs";
+
+describe("Circuit breaker", () => {
+  function createConnection(healthy: boolean[], config: any = {}) {
+    const conn = new Connection({
+      url: ["http://a:8529", "http://b:8529"],
+      loadBalancingStrategy: "ROUND_ROBIN",
+      circuitBreaker: { failureThreshold: 2, cooldown: 20 },
+      maxRetries: 0,
+      ...config
+    });
+    const calls: string[] = [];
+    stubHosts(
+      conn,
+      healthy.map((_, index) =>
+        createHost(({ url }) => {
+          calls.push(`${index}:${url.pathname}`);
+          if (healthy[index]) return response(200, { host: index });
+          return systemError("ECONNREFUSED", "connect ECONNREFUSED");
+        })
+      )
+    );
+    return { conn, calls };
+  }
+  it("opens the circuit after consecutive failures", async () => {
+    const { conn } = createConnection([false, true]);
+    for (let i = 0; i < 4; i++) {
+      await conn.request({ method: "GET", host: 0 }).catch(() => undefined);
+    }
+    const [a, b] = conn.getHostHealth();
+    expect(a.url).to.equal("http://a:8529");
+    expect(a.circuit).to.equal("open");
+    expect(a.failures).to.equal(4);
+    expect(a.openedAt).to.be.a("number");
+    expect(b.circuit).to.equal("closed");
+    expect(b.failures).to.equal(0);
+  });
+  it("counts server errors as failures", async () => {
+    const { conn } = createConnection([true, true]);
+    (conn as any)._hosts[0] = createHost(() => response(503, {}));
+    for (let i = 0; i < 2; i++) {
+      await conn.request({ method: "GET", host: 0 }).catch(() => undefined);
+    }
+    const [a, b] = conn.getHostHealth();
+    expect(a.circuit).to.equal("open");
+    expect(a.failures).to.equal(2);
+    expect(b.failures).to.equal(0);
+  });
+  it("does not count leader redirects as failures", async () => {
+    const { conn } = createConnection([true, true]);
+    (conn as any)._hosts[0] = createHost(({ url }) =>
+      url.pathname === "/x"
+        ? response(503, {}, { "x-arango-endpoint": "http://b:8529" })
+        : response(200, {})
+    );
+    for (let i = 0; i < 2; i++) {
+      await conn.request({ method: "GET", path: "/x" });
+    }
+    expect(conn.getHostHealth()[0].failures).to.equal(0);
+  });
+  it("skips hosts with an open circuit", async () => {
+    const { conn, calls } = createConnection([false, true]);
+    for (let i = 0; i < 2; i++) {
+      await conn.request({ method: "GET", host: 0 }).catch(() => undefined);
+    }
+    calls.splice(0, calls.length);
+    for (let i = 0; i < 4; i++) {
+      const res = await conn.request({ method: "GET", path: "/x" });
+      expect(res.body).to.eql({ host: 1 });
+    }
+    expect(calls.every(call => call.startsWith("1:"))).to.equal(true);
+  });
+  it("probes /_api/version after the cooldown", async () => {
+    const healthy = [false, true];
+    const { conn, calls } = createConnection(healthy);
+    for (let i = 0; i < 2; i++) {
+      await conn.request({ method: "GET", host: 0 }).catch(() => undefined);
+    }
+    healthy[0] = true;
+    await new Promise(resolve => setTimeout(resolve, 25));
+    calls.splice(0, calls.length);
+    await conn.request({ method: "GET", path: "/x" });
+    expect(calls).to.contain("0:/_api/version");
+    await new Promise(resolve => setTimeout(resolve, 5));
+    expect(conn.getHostHealth()[0].circuit).to.equal("closed");
+  });
+  it("reopens the circuit if the probe fails", async () => {
+    const { conn } = createConnection([false, true]);
+    for (let i = 0; i < 2; i++) {
+      await conn.request({ method: "GET", host: 0 }).catch(() => undefined);
+    }
+    const { openedAt } = conn.getHostHealth()[0];
+    await new Promise(resolve => setTimeout(resolve, 25));
+    await conn.request({ method: "GET", path: "/x" });
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const health = conn.getHostHealth()[0];
+    expect(health.circuit).to.equal("open");
+    expect(health.openedAt).to.be.above(openedAt!);
+  });
+  it("reopens the circuit if the probe times out", async () => {
+    const { conn } = createConnection([false, true]);
+    for (let i = 0; i < 2; i++) {
+      await conn.request({ method: "GET", host: 0 }).catch(() => undefined);
+    }
+    (conn as any)._hosts[0] = createHost(() => undefined);
+    await new Promise(resolve => setTimeout(resolve, 25));
+    await conn.request({ method: "GET", path: "/x" });
+    expect(conn.getHostHealth()[0].circuit).to.equal("half-open");
+    await new Promise(resolve => setTimeout(resolve, 25));
+    expect(conn.getHostHealth()[0].circuit).to.equal("open");
+  });
+  it("supports a separate probe timeout", async () => {
+    const { conn } = createConnection([false, true], {
+      circuitBreaker: { failureThreshold: 2, cooldown: 20, probeTimeout: 50 }
+    });
+    for (let i = 0; i < 2; i++) {
+      await conn.request({ method: "GET", host: 0 }).catch(() => undefined);
+    }
+    (conn as any)._hosts[0] = createHost(() => undefined);
+    await new Promise(resolve => setTimeout(resolve, 25));
+    await conn.request({ method: "GET", path: "/x" });
+    await new Promise(resolve => setTimeout(resolve, 25));
+    expect(conn.getHostHealth()[0].circuit).to.equal("half-open");
+    await new Promise(resolve => setTimeout(resolve, 40));
+    expect(conn.getHostHealth()[0].circuit).to.equal("open");
+  });
+  it("is disabled by default", async () => {
+    const { conn, calls } = createConnection([false, true], {
+      circuitBreaker: undefined
+    });
+    for (let i = 0; i < 4; i++) {
+      await conn.request({ method: "GET", host: 0 }).catch(() => undefined);
+    }
+    expect(conn.getHostHealth()[0].circuit).to.equal("closed");
+    expect(calls).to.have.lengthOf(4);
+  });
+});
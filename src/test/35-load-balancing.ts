@@ -0,0 +1,65 @@
+import { expect } from "chai";
+import { Connection } from "../connection";
+import { createHost, response, stubHosts } from "./util/stubs";
+
+describe("Load balancing", () => {
+  function createConnection(delays: number[], loadBalancingStrategy: any) {
+    const conn = new Connection({
+      url: delays.map((_, index) => `http://host${index}:8529`),
+      loadBalancingStrategy
+    });
+    const calls: number[] = [];
+    stubHosts(
+      conn,
+      delays.map((delay, index) =>
+        createHost(() => {
+          calls.push(index);
+          return response(200, { host: index });
+        }, delay)
+      )
+    );
+    return { conn, calls };
+  }
+  describe("LEAST_CONNECTIONS", () => {
+    it("picks the host with the fewest active requests", async () => {
+      const { conn, calls } = createConnection([50, 1], "LEAST_CONNECTIONS");
+      const slow = conn.request({ method: "GET" });
+      await new Promise(resolve => setTimeout(resolve, 1));
+      for (let i = 0; i < 3; i++) {
+        await conn.request({ method: "GET" });
+      }
+      await slow;
+      expect(calls).to.eql([0, 1, 1, 1]);
+    });
+    it("distributes concurrent requests evenly", async () => {
+      const { conn, calls } = createConnection([5, 5, 5], "LEAST_CONNECTIONS");
+      await Promise.all(
+        Array.from({ length: 6 }, () => conn.request({ method: "GET" }))
+      );
+      expect(calls.filter(host => host === 0)).to.have.lengthOf(2);
+      expect(calls.filter(host => host === 1)).to.have.lengthOf(2);
+      expect(calls.filter(host => host === 2)).to.have.lengthOf(2);
+    });
+    it("tracks active requests per host", async () => {
+      const { conn } = createConnection([5, 5], "LEAST_CONNECTIONS");
+      const request = conn.request({ method: "GET" });
+      expect(conn.getHostHealth().map(host => host.activeTasks)).to.eql([1, 0]);
+      await request;
+      expect(conn.getHostHealth().map(host => host.activeTasks)).to.eql([0, 0]);
+    });
+  });
+  describe("EWMA", () => {
+    it("prefers hosts with lower latency", async () => {
+      const { conn, calls } = createConnection([30, 1], "EWMA");
+      await conn.request({ method: "GET" });
+      await conn.request({ method: "GET" });
+      calls.splice(0, calls.length);
+      for (let i = 0; i < 4; i++) {
+        await conn.request({ method: "GET" });
+      }
+      expect(calls).to.eql([1, 1, 1, 1]);
+      const [slow, fast] = conn.getHostHealth();
+      expect(slow.latency).to.be.above(fast.latency!);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { expect } from "chai";
+import { Connection } from "../connection";
+import { Database } from "../database";
+import { createHost, response, stubHosts } from "./util/stubs";
+
+describe("Host list", () => {
+  describe("connection.removeFromHostList", () => {
+    it("stops sending requests to retired hosts", async () => {
+      const conn = new Connection({
+        url: ["http://a:8529", "http://b:8529"],
+        loadBalancingStrategy: "ROUND_ROBIN"
+      });
+      const calls: number[] = [];
+      stubHosts(
+        conn,
+        [0, 1].map(index =>
+          createHost(() => {
+            calls.push(index);
+            return response(200, {});
+          })
+        )
+      );
+      expect(conn.removeFromHostList("http://b:8529")).to.eql([1]);
+      for (let i = 0; i < 3; i++) {
+        await conn.request({ method: "GET" });
+      }
+      expect(calls).to.eql([0, 0, 0]);
+      expect(conn.getHostHealth()[1].retired).to.equal(true);
+    });
+    it("closes retired hosts after in-flight requests completed", async () => {
+      const conn = new Connection({ url: ["http://a:8529", "http://b:8529"] });
+      let closed = false;
+      const host: any = createHost(() => response(200, {}), 10);
+      host.close = () => {
+        closed = true;
+      };
+      (conn as any)._hosts[1] = host;
+      const request = conn.request({ method: "GET", host: 1 });
+      conn.removeFromHostList("http://b:8529");
+      expect(closed).to.equal(false);
+      await request;
+      expect(closed).to.equal(true);
+    });
+    it("does not remove the last host", () => {
+      const conn = new Connection({ url: ["http://a:8529"] });
+      expect(() => conn.removeFromHostList("http://a:8529")).to.throw();
+    });
+    it("restores retired hosts when they are added again", () => {
+      const conn = new Connection({ url: ["http://a:8529", "http://b:8529"] });
+      conn.removeFromHostList("http://b:8529");
+      expect(conn.addToHostList("http://b:8529")).to.eql([1]);
+      expect(conn.getHostHealth()[1].retired).to.equal(false);
+    });
+  });
+  describe("autoDiscover", () => {
+    let db: Database;
+    afterEach(() => {
+      db.close();
+    });
+    it("adds and retires discovered coordinators", async () => {
+      const changes: any[] = [];
+      db = new Database({
+        url: "http://seed:8529",
+        autoDiscover: {
+          interval: 5,
+          onTopologyChange: change => changes.push(change)
+        }
+      });
+      const endpoints = [
+        ["tcp://seed:8529", "tcp://b:8529", "tcp://c:8529"],
+        ["tcp://b:8529"]
+      ];
+      stubHosts(db, [
+        createHost(() => {
+          const next = endpoints.length > 1 ? endpoints.shift()! : endpoints[0];
+          return response(200, {
+            endpoints: next.map(endpoint => ({ endpoint }))
+          });
+        })
+      ]);
+      await new Promise(resolve => setTimeout(resolve, 30));
+      expect(changes[0]).to.eql({
+        added: ["http://b:8529", "http://c:8529"],
+        removed: []
+      });
+      expect(changes[1]).to.eql({ added: [], removed: ["http://c:8529"] });
+      expect(changes).to.have.lengthOf(2);
+      expect(db.getHostHealth().map(host => [host.url, host.retired])).to.eql([
+        ["http://seed:8529", false],
+        ["http://b:8529", false],
+        ["http://c:8529", true]
+      ]);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { expect } from "chai";
+import { Database } from "../database";
+import { createHost, response, stubHosts } from "./util/stubs";
+
+function createToken(id: number, expiresIn: number) {
+  const encode = (obj: any) =>
+    Buffer.from(JSON.stringify(obj))
+      .toString("base64")
+      .replace(/=+$/, "");
+  const exp = Math.floor((Date.now() + expiresIn) / 1000);
+  return `${encode({ alg: "HS256" })}.${encode({ id, exp })}.signature`;
+}
+
+const UNAUTHORIZED = {
+  error: true,
+  code: 401,
+  errorNum: 11,
+  errorMessage: "not authorized to execute this request"
+};
+
+describe("Session management", () => {
+  function createDatabase(expiresIn: number) {
+    const db = new Database();
+    const tokens: string[] = [];
+    let valid: string | undefined;
+    const calls: string[] = [];
+    stubHosts(db, [
+      createHost(({ url, headers }) => {
+        calls.push(url.pathname);
+        if (url.pathname.endsWith("/_open/auth")) {
+          const token = createToken(tokens.length, expiresIn);
+          tokens.push(token);
+          valid = `Bearer ${token}`;
+          return response(200, { jwt: token });
+        }
+        if (headers.authorization !== valid) {
+          return response(401, UNAUTHORIZED);
+        }
+        return response(200, { authorization: headers.authorization });
+      })
+    ]);
+    return {
+      db,
+      tokens,
+      calls,
+      expire() {
+        valid = undefined;
+      }
+    };
+  }
+  it("uses the token returned by login", async () => {
+    const { db, tokens } = createDatabase(3600000);
+    const token = await db.login("root", "", { autoRefresh: true });
+    expect(token).to.equal(tokens[0]);
+    const result = await db.route().get();
+    expect(result.body.authorization).to.equal(`Bearer ${tokens[0]}`);
+  });
+  it("refreshes the token before it expires", async () => {
+    const { db, tokens } = createDatabase(30000);
+    await db.login("root", "", { autoRefresh: true, refreshMargin: 60000 });
+    const result = await db.route().get();
+    expect(tokens).to.have.lengthOf(2);
+    expect(result.body.authorization).to.equal(`Bearer ${tokens[1]}`);
+  });
+  it("retries requests once after a 401 response", async () => {
+    const { db, tokens, expire } = createDatabase(3600000);
+    await db.login("root", "", { autoRefresh: true });
+    expire();
+    const result = await db.route().get();
+    expect(tokens).to.have.lengthOf(2);
+    expect(result.body.authorization).to.equal(`Bearer ${tokens[1]}`);
+  });
+  it("serializes concurrent refreshes", async () => {
+    const { db, tokens, expire } = createDatabase(3600000);
+    await db.login("root", "", { autoRefresh: true });
+    expire();
+    await Promise.all([db.route().get(), db.route().get(), db.route().get()]);
+    expect(tokens).to.have.lengthOf(2);
+  });
+  it("does not refresh without autoRefresh", async () => {
+    const { db, tokens, expire } = createDatabase(3600000);
+    await db.login();
+    expire();
+    try {
+      await db.route().get();
+    } catch (e) {
+      expect(e).to.have.property("statusCode", 401);
+      expect(tokens).to.have.lengthOf(1);
+      return;
+    }
+    expect.fail();
+  });
+  it("stops refreshing after switching to basic auth", async () => {
+    const { db, tokens, calls } = createDatabase(30000);
+    await db.login("root", "", { autoRefresh: true });
+    db.useBasicAuth();
+    calls.splice(0, calls.length);
+    await db
+      .route()
+      .get()
+      .catch(() => undefined);
+    expect(calls).to.eql(["/_db/_system"]);
+    expect(tokens).to.have.lengthOf(1);
+  });
+});
@@ -0,0 +1,82 @@
+import { expect } from "chai";
+import { Credentials } from "../connection";
+import { Database } from "../database";
+import { createHost, response, stubHosts } from "./util/stubs";
+
+const UNAUTHORIZED = {
+  error: true,
+  code: 401,
+  errorNum: 11,
+  errorMessage: "not authorized to execute this request"
+};
+
+describe("Credentials provider", () => {
+  function createDatabase(secrets: Credentials[], valid: string) {
+    let calls = 0;
+    const state = { valid };
+    const db = new Database({
+      credentials: async () => {
+        calls += 1;
+        return secrets[Math.min(calls, secrets.length) - 1];
+      }
+    });
+    const headers: string[] = [];
+    stubHosts(db, [
+      createHost(options => {
+        headers.push(options.headers.authorization);
+        if (options.headers.authorization === state.valid) {
+          return response(200, {});
+        }
+        return response(401, UNAUTHORIZED);
+      })
+    ]);
+    return { db, headers, state, getCalls: () => calls };
+  }
+  it("uses the provided credentials", async () => {
+    const { db, headers, getCalls } = createDatabase(
+      [{ username: "root", password: "hunter2" }],
+      `Basic ${Buffer.from("root:hunter2").toString("base64")}`
+    );
+    await db.route().get();
+    await db.route().get();
+    expect(headers).to.have.lengthOf(2);
+    expect(getCalls()).to.equal(1);
+  });
+  it("supports tokens", async () => {
+    const { db, headers } = createDatabase([{ token: "abc" }], "Bearer abc");
+    await db.route().get();
+    expect(headers).to.eql(["Bearer abc"]);
+  });
+  it("consults the provider again after a 401 response", async () => {
+    const { db, headers, state, getCalls } = createDatabase(
+      [{ token: "old" }, { token: "new" }],
+      "Bearer old"
+    );
+    await db.route().get();
+    state.valid = "Bearer new";
+    await Promise.all([db.route().get(), db.route().get()]);
+    expect(getCalls()).to.equal(2);
+    expect(headers.slice(-2)).to.eql(["Bearer new", "Bearer new"]);
+  });
+  it("fails if the new credentials are rejected as well", async () => {
+    const { db, getCalls } = createDatabase([{ token: "old" }], "Bearer new");
+    try {
+      await db.route().get();
+    } catch (e) {
+      expect(e).to.have.property("statusCode", 401);
+      expect(getCalls()).to.equal(2);
+      return;
+    }
+    expect.fail();
+  });
+  it("is replaced by explicit authentication", async () => {
+    const { db, headers, getCalls } = createDatabase(
+      [{ token: "abc" }],
+      "Bearer xyz"
+    );
+    db.useBearerAuth("xyz");
+    await db.route().get();
+    expect(headers).to.eql(["Bearer xyz"]);
+    expect(getCalls()).to.equal(0);
+  });
+});
@@ -0,0 +1,92 @@
+import { expect } from "chai";
+import { Database } from "../database";
+import { formatPrometheusMetrics } from "../metrics";
+import { createHost, response, stubHosts, systemError } from "./util/stubs";
+
+describe("Connection stats", () => {
+  function createDatabase(responses: any[], config: any = {}) {
+    const db = new Database({
+      url: ["http://a:8529", "http://b:8529"],
+      ...config
+    });
+    stubHosts(db, [0, 1].map(() => createHost(() => responses.shift())));
+    return db;
+  }
+  it("counts requests and latencies per host", async () => {
+    const db = createDatabase([response(200, {}), response(200, {})]);
+    await db.route().get();
+    await db.route().get();
+    const stats = db.getConnectionStats();
+    expect(stats.queueLength).to.equal(0);
+    expect(stats.activeTasks).to.equal(0);
+    const [a, b] = stats.hosts;
+    expect(a.url).to.equal("http://a:8529");
+    expect(a.requests).to.equal(2);
+    expect(a.errors).to.equal(0);
+    expect(a.latency.count).to.equal(2);
+    expect(a.latency.counts.reduce((sum, n) => sum + n)).to.equal(2);
+    expect(b.requests).to.equal(0);
+  });
+  it("counts errors, retries and failovers", async () => {
+    const db = createDatabase(
+      [systemError("ECONNRESET", "socket hang up"), response(200, {})],
+      {
+        retryPolicy: { minDelay: 1, maxDelay: 1 }
+      }
+    );
+    await db.route().get();
+    const [a, b] = db.getConnectionStats().hosts;
+    expect(a.errors).to.equal(1);
+    expect(a.retries).to.equal(1);
+    expect(a.failovers).to.equal(1);
+    expect(b.requests).to.equal(1);
+  });
+  it("counts leader redirects", async () => {
+    const db = createDatabase([
+      response(503, {}, { "x-arango-endpoint": "http://b:8529" }),
+      response(200, {})
+    ]);
+    await db.route().get();
+    const [a, b] = db.getConnectionStats().hosts;
+    expect(a.leaderRedirects).to.equal(1);
+    expect(a.errors).to.equal(1);
+    expect(b.requests).to.equal(1);
+  });
+  it("reports the queue length", () => {
+    const db = createDatabase([], { agentOptions: { maxSockets: 1 } });
+    db.route().get();
+    db.route().get();
+    db.route().get();
+    const stats = db.getConnectionStats();
+    expect(stats.activeTasks).to.equal(2);
+    expect(stats.queueLength).to.equal(1);
+  });
+  describe("formatPrometheusMetrics", () => {
+    it("formats the stats in the Prometheus text format", async () => {
+      const db = createDatabase([response(200, {})]);
+      await db.route().get();
+      const text = formatPrometheusMetrics(db.getConnectionStats());
+      const lines = text.split("\n");
+      expect(lines).to.contain("# TYPE arangojs_requests_total counter");
+      expect(lines).to.contain(
+        'arangojs_requests_total{host="http://a:8529"} 1'
+      );
+      expect(lines).to.contain(
+        'arangojs_requests_total{host="http://b:8529"} 0'
+      );
+      expect(lines).to.contain("arangojs_queue_length 0");
+      expect(lines).to.contain(
+        'arangojs_request_duration_seconds_bucket{host="http://a:8529",le="+Inf"} 1'
+      );
+      expect(lines).to.contain(
+        'arangojs_request_duration_seconds_count{host="http://a:8529"} 1'
+      );
+    });
+    it("supports a custom prefix", () => {
+      const db = createDatabase([]);
+      const text = formatPrometheusMetrics(db.getConnectionStats(), "db");
+      expect(text).to.contain("db_queue_length 0\n");
+      expect(text).not.to.contain("arangojs_");
+    });
+  });
+});
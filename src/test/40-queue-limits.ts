@@ -0,0 +1,87 @@
+import { expect } from "chai";
+import arangojs from "../arangojs";
+import { Connection } from "../connection";
+import { QueueFullError, QueueTimeoutError } from "../error";
+import { createHost, response, stubHosts } from "./util/stubs";
+
+describe("Queue limits", () => {
+  function createConnection(config: any) {
+    const conn = new Connection({
+      agentOptions: { maxSockets: 1, keepAlive: false },
+      ...config
+    });
+    stubHosts(conn, [createHost(() => response(200, {}), 10)]);
+    return conn;
+  }
+  it("rejects requests when the queue is full", async () => {
+    const conn = createConnection({ maxQueueSize: 1 });
+    const active = conn.request({ method: "GET" });
+    const queued = conn.request({ method: "GET" });
+    try {
+      await conn.request({ method: "GET" });
+    } catch (e) {
+      expect(e).to.be.an.instanceof(QueueFullError);
+      await Promise.all([active, queued]);
+      return;
+    }
+    expect.fail();
+  });
+  it("only rejects requests that would wait with a maxQueueSize of 0", async () => {
+    const conn = createConnection({ maxQueueSize: 0 });
+    const active = conn.request({ method: "GET" });
+    try {
+      await conn.request({ method: "GET" });
+    } catch (e) {
+      expect(e).to.be.an.instanceof(QueueFullError);
+      await active;
+      await conn.waitForCapacity();
+      await conn.request({ method: "GET" });
+      return;
+    }
+    expect.fail();
+  });
+  it("exposes the queue errors on the arangojs function", () => {
+    expect(arangojs).to.have.property("QueueFullError", QueueFullError);
+    expect(arangojs).to.have.property("QueueTimeoutError", QueueTimeoutError);
+  });
+  it("rejects requests waiting in the queue for too long", async () => {
+    const conn = createConnection({ queueTimeout: 5 });
+    const active = conn.request({ method: "GET" });
+    try {
+      await conn.request({ method: "GET" });
+    } catch (e) {
+      expect(e).to.be.an.instanceof(QueueTimeoutError);
+      expect(conn.getStats().queueLength).to.equal(0);
+      await active;
+      return;
+    }
+    expect.fail();
+  });
+  it("does not time out requests dispatched in time", async () => {
+    const conn = createConnection({ queueTimeout: 50 });
+    await Promise.all([
+      conn.request({ method: "GET" }),
+      conn.request({ method: "GET" })
+    ]);
+  });
+  it("resolves waitForCapacity once the queue has capacity", async () => {
+    const conn = createConnection({ maxQueueSize: 1 });
+    conn.request({ method: "GET" });
+    const queued = conn.request({ method: "GET" });
+    let resolved = false;
+    const capacity = conn.waitForCapacity().then(() => {
+      resolved = true;
+    });
+    await new Promise(resolve => setTimeout(resolve, 1));
+    expect(resolved).to.equal(false);
+    await capacity;
+    expect(conn.getStats().queueLength).to.equal(0);
+    await queued;
+  });
+  it("resolves waitForCapacity immediately without a limit", async () => {
+    const conn = createConnection({});
+    conn.request({ method: "GET" });
+    conn.request({ method: "GET" });
+    await conn.waitForCapacity();
+  });
+});
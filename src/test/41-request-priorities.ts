@@ -0,0 +1,62 @@
+import { expect } from "chai";
+import { Connection } from "../connection";
+import { createHost, response, stubHosts } from "./util/stubs";
+
+describe("Request priorities", () => {
+  function createConnection() {
+    const conn = new Connection({
+      agentOptions: { maxSockets: 1, keepAlive: false }
+    });
+    const calls: string[] = [];
+    stubHosts(conn, [
+      createHost(({ url }) => {
+        calls.push(url.pathname.replace("/_db/_system/", ""));
+        return response(200, {});
+      })
+    ]);
+    return { conn, calls };
+  }
+  it("performs higher priority requests first", async () => {
+    const { conn, calls } = createConnection();
+    await Promise.all([
+      conn.request({ path: "/first" }),
+      conn.request({ path: "/low", priority: "low" }),
+      conn.request({ path: "/normal" }),
+      conn.request({ path: "/high", priority: "high" })
+    ]);
+    expect(calls).to.eql(["first", "high", "normal", "low"]);
+  });
+  it("preserves the order of requests with the same priority", async () => {
+    const { conn, calls } = createConnection();
+    await Promise.all([
+      conn.request({ path: "/first" }),
+      conn.request({ path: "/a", priority: "high" }),
+      conn.request({ path: "/b", priority: "high" }),
+      conn.request({ path: "/c", priority: "high" })
+    ]);
+    expect(calls).to.eql(["first", "a", "b", "c"]);
+  });
+  it("does not starve lower priority requests", async () => {
+    const { conn, calls } = createConnection();
+    const requests = [
+      conn.request({ path: "/first" }),
+      conn.request({ path: "/low", priority: "low" })
+    ];
+    for (let i = 0; i < 8; i++) {
+      requests.push(conn.request({ path: `/${i}`, priority: "high" }));
+    }
+    await Promise.all(requests);
+    expect(calls.indexOf("low")).to.equal(5);
+  });
+  it("rejects unknown priorities", async () => {
+    const { conn, calls } = createConnection();
+    try {
+      await conn.request({ path: "/x", priority: "urgent" as any });
+    } catch (e) {
+      expect(e.message).to.contain('"urgent"');
+      expect(calls).to.have.lengthOf(0);
+      return;
+    }
+    expect.fail();
+  });
+});
@@ -0,0 +1,218 @@
+import { expect } from "chai";
+import { createServer, Http2Server, ServerHttp2Stream } from "http2";
+import { AddressInfo } from "net";
+import { Readable } from "stream";
+import { Connection } from "../connection";
+import { isAbortError } from "../error";
+import { createAbortController } from "./util/stubs";
+
+function readAll(stream: Readable): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const data: Buffer[] = [];
+    stream.on("data", chunk => data.push(chunk));
+    stream.on("end", () => resolve(Buffer.concat(data)));
+    stream.on("error", reject);
+  });
+}
+
+describe("HTTP/2 transport", () => {
+  let server: Http2Server;
+  let port: number;
+  let sessions: number;
+  let handler: (stream: ServerHttp2Stream, headers: any) => void;
+  before(done => {
+    server = createServer({ settings: { maxConcurrentStreams: 50 } });
+    server.on("session", () => {
+      sessions += 1;
+    });
+    server.on("stream", (stream, headers) => handler(stream, headers));
+    server.listen(0, "127.0.0.1", () => {
+      port = (server.address() as AddressInfo).port;
+      done();
+    });
+  });
+  after(done => {
+    server.close(() => done());
+  });
+  beforeEach(() => {
+    sessions = 0;
+    handler = (stream, headers) => {
+      stream.respond({ ":status": 200, "content-type": "application/json" });
+      stream.end(
+        JSON.stringify({
+          method: headers[":method"],
+          path: headers[":path"]
+        })
+      );
+    };
+  });
+  it("performs requests over a single session", async () => {
+    const conn = new Connection({ url: `h2c://127.0.0.1:${port}` });
+    try {
+      const results = await Promise.all(
+        [1, 2, 3].map(i => conn.request({ method: "PUT", path: `/${i}` }))
+      );
+      expect(results.map(res => res.body)).to.eql([
+        { method: "PUT", path: "/_db/_system/1" },
+        { method: "PUT", path: "/_db/_system/2" },
+        { method: "PUT", path: "/_db/_system/3" }
+      ]);
+      expect(sessions).to.equal(1);
+    } finally {
+      conn.close();
+    }
+  });
+  it("uses HTTP/2 for http URLs with the http2 protocol", async () => {
+    const conn = new Connection({
+      url: `http://127.0.0.1:${port}`,
+      protocol: "http2"
+    });
+    try {
+      expect(conn.getHostHealth()[0].url).to.equal(`h2c://127.0.0.1:${port}`);
+      const res = await conn.request({ method: "GET" });
+      expect(res.statusCode).to.equal(200);
+      expect(res.headers["content-type"]).to.equal("application/json");
+      expect(res.headers).not.to.have.property(":status");
+    } finally {
+      conn.close();
+    }
+  });
+  it("scales the number of concurrent requests to the server", async () => {
+    const conn = new Connection({ url: `h2c://127.0.0.1:${port}` });
+    try {
+      await conn.request({ method: "GET" });
+      expect((conn as any)._maxTasks).to.equal(50);
+    } finally {
+      conn.close();
+    }
+  });
+  it("limits the number of concurrent requests to maxSockets", async () => {
+    const conn = new Connection({
+      url: `h2c://127.0.0.1:${port}`,
+      agentOptions: { maxSockets: 10 }
+    });
+    try {
+      await conn.request({ method: "GET" });
+      expect((conn as any)._maxTasks).to.equal(10);
+    } finally {
+      conn.close();
+    }
+  });
+  it("limits the number of concurrent requests by default", async () => {
+    const unlimited = createServer();
+    unlimited.on("stream", stream => {
+      stream.respond({ ":status": 200 });
+      stream.end();
+    });
+    await new Promise(resolve => unlimited.listen(0, "127.0.0.1", resolve));
+    const { port } = unlimited.address() as AddressInfo;
+    const conn = new Connection({ url: `h2c://127.0.0.1:${port}` });
+    try {
+      await conn.request({ method: "GET" });
+      expect((conn as any)._maxTasks).to.equal(100);
+    } finally {
+      conn.close();
+      await new Promise(resolve => unlimited.close(resolve));
+    }
+  });
+  it("ignores the stream limits of retired servers", async () => {
+    const conn = new Connection({ url: `h2c://127.0.0.1:${port}` });
+    try {
+      (conn as any)._setStreamLimit(`h2c://127.0.0.1:${port}`, 50);
+      conn.addToHostList("h2c://127.0.0.2:8529");
+      (conn as any)._setStreamLimit("h2c://127.0.0.2:8529", 20);
+      expect((conn as any)._maxTasks).to.equal(20);
+      conn.removeFromHostList("h2c://127.0.0.2:8529");
+      expect((conn as any)._maxTasks).to.equal(50);
+    } finally {
+      conn.close();
+    }
+  });
+  it("reconnects after the session was closed", async () => {
+    const conn = new Connection({ url: `h2c://127.0.0.1:${port}` });
+    try {
+      handler = stream => {
+        stream.session.destroy();
+      };
+      try {
+        await conn.request({ method: "GET" });
+        expect.fail();
+      } catch (e) {
+        expect(e).to.have.property("code", "ECONNRESET");
+      }
+      handler = stream => {
+        stream.respond({ ":status": 200 });
+        stream.end();
+      };
+      const res = await conn.request({ method: "GET" });
+      expect(res.statusCode).to.equal(200);
+      expect(sessions).to.equal(2);
+    } finally {
+      conn.close();
+    }
+  });
+  it("streams response bodies", async () => {
+    const conn = new Connection({ url: `h2c://127.0.0.1:${port}` });
+    try {
+      let finish: () => void;
+      handler = stream => {
+        stream.respond({
+          ":status": 200,
+          "content-type": "application/octet-stream"
+        });
+        stream.write("hello ");
+        finish = () => stream.end("world");
+      };
+      const res = await conn.request({ method: "GET", expectStream: true });
+      expect(res.body).to.be.an.instanceof(Readable);
+      const body = readAll(res.body);
+      finish!();
+      expect((await body).toString()).to.equal("hello world");
+    } finally {
+      conn.close();
+    }
+  });
+  it("can abort streamed response bodies", async () => {
+    const conn = new Connection({ url: `h2c://127.0.0.1:${port}` });
+    try {
+      handler = stream => {
+        stream.respond({
+          ":status": 200,
+          "content-type": "application/octet-stream"
+        });
+        stream.write("hello ");
+      };
+      const controller = createAbortController();
+      const res = await conn.request({
+        method: "GET",
+        expectStream: true,
+        signal: controller.signal
+      });
+      const body = readAll(res.body);
+      controller.abort();
+      try {
+        await body;
+        expect.fail();
+      } catch (e) {
+        expect(isAbortError(e)).to.equal(true);
+      }
+      expect(controller.listeners).to.have.lengthOf(0);
+    } finally {
+      conn.close();
+    }
+  });
+  it("times out requests", async () => {
+    const conn = new Connection({ url: `h2c://127.0.0.1:${port}` });
+    try {
+      handler = () => undefined;
+      try {
+        await conn.request({ method: "GET", timeout: 10 });
+        expect.fail();
+      } catch (e) {
+        expect(e).to.have.property("code", "ETIMEDOUT");
+      }
+    } finally {
+      conn.close();
+    }
+  });
+});
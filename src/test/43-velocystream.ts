@@ -0,0 +1,262 @@
+import { expect } from "chai";
+import { AddressInfo, createServer, Server, Socket } from "net";
+import { Readable } from "stream";
+import { Connection } from "../connection";
+import { decodeVPack, encodeVPack, getByteSize } from "../util/vpack";
+
+function chunk(id: number, message: Buffer) {
+  const header = Buffer.alloc(24);
+  header.writeUInt32LE(24 + message.length, 0);
+  header.writeUInt32LE(3, 4);
+  header.writeUInt32LE(id, 8);
+  header.writeUInt32LE(message.length, 16);
+  return Buffer.concat([header, message]);
+}
+
+describe("VelocyPack", () => {
+  it("encodes values as specified", () => {
+    expect(encodeVPack(null)).to.eql(Buffer.from([0x18]));
+    expect(encodeVPack(true)).to.eql(Buffer.from([0x1a]));
+    expect(encodeVPack(3)).to.eql(Buffer.from([0x33]));
+    expect(encodeVPack(-1)).to.eql(Buffer.from([0x3f]));
+    expect(encodeVPack(300)).to.eql(Buffer.from([0x29, 0x2c, 0x01]));
+    expect(encodeVPack(-300)).to.eql(Buffer.from([0x21, 0xd4, 0xfe]));
+    expect(encodeVPack("a")).to.eql(Buffer.from([0x41, 0x61]));
+    expect(encodeVPack([])).to.eql(Buffer.from([0x01]));
+    expect(encodeVPack({})).to.eql(Buffer.from([0x0a]));
+    expect(encodeVPack([1, 2, 3])).to.eql(
+      Buffer.from([0x02, 0x05, 0x31, 0x32, 0x33])
+    );
+    expect(encodeVPack({ b: 2, a: 1 })).to.eql(
+      Buffer.from([
+        0x0b,
+        0x0b,
+        0x02,
+        0x41,
+        0x62,
+        0x32,
+        0x41,
+        0x61,
+        0x31,
+        0x06,
+        0x03
+      ])
+    );
+  });
+  it("decodes what it encodes", () => {
+    const values = [
+      0,
+      -6,
+      -7,
+      255,
+      -129,
+      1.5,
+      Math.pow(2, 40),
+      -Math.pow(2, 40),
+      Math.pow(2, 60),
+      "",
+      "x".repeat(200),
+      "ünïcödé",
+      [1, "two", [3], { four: 4 }],
+      Array.from({ length: 300 }, (_, i) => i),
+      { _key: "abc", nested: { list: [true, false, null] }, "": "empty" },
+      Array.from({ length: 100 }, () => ({ text: "x".repeat(1000) }))
+    ];
+    for (const value of values) {
+      expect(decodeVPack(encodeVPack(value))).to.eql(value);
+    }
+  });
+  it("omits undefined object values like JSON", () => {
+    expect(decodeVPack(encodeVPack({ a: undefined, b: [undefined] }))).to.eql({
+      b: [null]
+    });
+  });
+  it("decodes compact arrays and objects", () => {
+    expect(
+      decodeVPack(Buffer.from([0x13, 0x06, 0x31, 0x28, 0x10, 0x02]))
+    ).to.eql([1, 16]);
+    expect(
+      decodeVPack(Buffer.from([0x14, 0x07, 0x41, 0x61, 0x31, 0x32, 0x01]))
+    ).to.eql({ a: 1 });
+  });
+  it("translates attribute names", () => {
+    expect(
+      decodeVPack(Buffer.from([0x14, 0x06, 0x31, 0x41, 0x61, 0x01]))
+    ).to.eql({ _key: "a" });
+  });
+  it("reports the byte size of values", () => {
+    const buf = Buffer.concat([encodeVPack({ a: [1, 2] }), encodeVPack(1)]);
+    expect(getByteSize(buf)).to.equal(buf.length - 1);
+  });
+});
+
+describe("VelocyStream transport", () => {
+  let server: Server;
+  let port: number;
+  let received: any[];
+  let sockets: Socket[];
+  before(done => {
+    server = createServer(socket => {
+      sockets.push(socket);
+      let buffer = Buffer.alloc(0);
+      let handshake = false;
+      socket.on("data", data => {
+        buffer = Buffer.concat([buffer, data]);
+        if (!handshake) {
+          if (buffer.length < 11) return;
+          handshake = buffer.slice(0, 11).toString() === "VST/1.1\r\n\r\n";
+          buffer = buffer.slice(11);
+        }
+        while (buffer.length >= 24 && buffer.length >= buffer.readUInt32LE(0)) {
+          const length = buffer.readUInt32LE(0);
+          const id = buffer.readUInt32LE(8);
+          const message = buffer.slice(24, length);
+          buffer = buffer.slice(length);
+          const header = decodeVPack(message);
+          const size = getByteSize(message);
+          const body =
+            message.length > size ? decodeVPack(message, size) : undefined;
+          received.push({ header, body });
+          const response =
+            header[1] === 1000 && header[3] === "invalid"
+              ? Buffer.concat([
+                  encodeVPack([1, 2, 401, {}]),
+                  encodeVPack({
+                    error: true,
+                    code: 401,
+                    errorNum: 11,
+                    errorMessage: "not authorized to execute this request"
+                  })
+                ])
+              : Buffer.concat([
+                  encodeVPack([1, 2, header[1] === 1000 ? 200 : 201, {}]),
+                  encodeVPack({ echo: header[4], body })
+                ]);
+          socket.write(chunk(id, response));
+        }
+      });
+    });
+    server.listen(0, "127.0.0.1", () => {
+      port = (server.address() as AddressInfo).port;
+      done();
+    });
+  });
+  after(done => {
+    server.close(() => done());
+  });
+  beforeEach(() => {
+    received = [];
+    sockets = [];
+  });
+  it("authenticates and performs requests", async () => {
+    const conn = new Connection({ url: `vst://127.0.0.1:${port}` });
+    try {
+      conn.setHeader("authorization", "Bearer secret");
+      const res = await conn.request({
+        method: "POST",
+        path: "/_api/document/test",
+        qs: { returnNew: true },
+        body: { hello: "world" }
+      });
+      expect(res.statusCode).to.equal(201);
+      expect(res.body).to.eql({
+        echo: "/_api/document/test",
+        body: { hello: "world" }
+      });
+      expect(received[0].header).to.eql([1, 1000, "jwt", "secret"]);
+      const [
+        version,
+        type,
+        database,
+        requestType,
+        path,
+        params,
+        meta
+      ] = received[1].header;
+      expect([version, type, database, requestType, path]).to.eql([
+        1,
+        1,
+        "_system",
+        2,
+        "/_api/document/test"
+      ]);
+      expect(params).to.eql({ returnNew: "true" });
+      expect(meta["content-type"]).to.equal("application/x-velocypack");
+      expect(meta).not.to.have.property("authorization");
+    } finally {
+      conn.close();
+    }
+  });
+  it("fails requests if authentication fails", async () => {
+    const conn = new Connection({ url: `vst://127.0.0.1:${port}` });
+    try {
+      conn.setHeader("authorization", "Bearer invalid");
+      try {
+        await conn.request({ path: "/" });
+        expect.fail();
+      } catch (e) {
+        expect(e).to.have.property("statusCode", 401);
+        expect(e).to.have.property("errorNum", 11);
+      }
+      conn.setHeader("authorization", "Bearer secret");
+      const res = await conn.request({ path: "/" });
+      expect(res.statusCode).to.equal(201);
+      expect(received.map(message => message.header.slice(0, 4))).to.eql([
+        [1, 1000, "jwt", "invalid"],
+        [1, 1, "_system", 1],
+        [1, 1000, "jwt", "secret"],
+        [1, 1, "_system", 1]
+      ]);
+    } finally {
+      conn.close();
+    }
+  });
+  it("returns response bodies as streams if requested", async () => {
+    const conn = new Connection({ url: `vst://127.0.0.1:${port}` });
+    try {
+      const res = await conn.request({ path: "/", expectStream: true });
+      expect(res.body).to.be.an.instanceof(Readable);
+      const data: Buffer[] = [];
+      await new Promise((resolve, reject) => {
+        res.body.on("data", (chunk: Buffer) => data.push(chunk));
+        res.body.on("end", resolve);
+        res.body.on("error", reject);
+      });
+      expect(decodeVPack(Buffer.concat(data))).to.eql({ echo: "/" });
+    } finally {
+      conn.close();
+    }
+  });
+  it("multiplexes requests over a single connection", async () => {
+    const conn = new Connection({ url: `vst://127.0.0.1:${port}` });
+    try {
+      conn.setDatabaseName("other");
+      const results = await Promise.all(
+        [1, 2, 3].map(i => conn.request({ path: `/${i}` }))
+      );
+      expect(results.map(res => res.body.echo)).to.eql(["/1", "/2", "/3"]);
+      expect(sockets).to.have.lengthOf(1);
+      expect(received[0].header.slice(0, 4)).to.eql([1, 1000, "plain", "root"]);
+      expect(received[1].header[2]).to.equal("other");
+    } finally {
+      conn.close();
+    }
+  });
+  it("fails pending requests when the connection is closed", async () => {
+    const conn = new Connection({ url: `vst://127.0.0.1:${port}` });
+    try {
+      await conn.request({ path: "/" });
+      sockets[0].destroy();
+      try {
+        await conn.request({ path: "/", timeout: 1000 });
+      } catch (e) {
+        // the request may have been sent before the socket was closed
+      }
+      const res = await conn.request({ path: "/" });
+      expect(res.statusCode).to.equal(201);
+      expect(sockets.length).to.be.above(1);
+    } finally {
+      conn.close();
+    }
+  });
+});
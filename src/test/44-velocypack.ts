@@ -0,0 +1,93 @@
+import { expect } from "chai";
+import { createServer, IncomingHttpHeaders, Server } from "http";
+import { AddressInfo } from "net";
+import { Connection } from "../connection";
+import { isArangoError } from "../error";
+import { decodeVPack, encodeVPack } from "../util/vpack";
+
+describe("VelocyPack content type", () => {
+  let server: Server;
+  let url: string;
+  let requests: { headers: IncomingHttpHeaders; body: Buffer }[];
+  let respond: (body: Buffer) => { status: number; body: any };
+  before(done => {
+    server = createServer((req, res) => {
+      const data: Buffer[] = [];
+      req.on("data", chunk => data.push(chunk));
+      req.on("end", () => {
+        const body = Buffer.concat(data);
+        requests.push({ headers: req.headers, body });
+        const result = respond(body);
+        res.writeHead(result.status, {
+          "content-type": "application/x-velocypack"
+        });
+        res.end(encodeVPack(result.body));
+      });
+    });
+    server.listen(0, "127.0.0.1", () => {
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+  after(done => {
+    server.close(() => done());
+  });
+  beforeEach(() => {
+    requests = [];
+    respond = body => ({ status: 200, body: { received: decodeVPack(body) } });
+  });
+  it("sends and receives VelocyPack bodies", async () => {
+    const conn = new Connection({ url, contentType: "vpack" });
+    try {
+      const res = await conn.request({
+        method: "POST",
+        body: { hello: "world" }
+      });
+      expect(res.body).to.eql({ received: { hello: "world" } });
+      expect(requests[0].headers["content-type"]).to.equal(
+        "application/x-velocypack"
+      );
+      expect(requests[0].headers["accept"]).to.equal(
+        "application/x-velocypack"
+      );
+    } finally {
+      conn.close();
+    }
+  });
+  it("sends JSON bodies by default", async () => {
+    const conn = new Connection({ url });
+    try {
+      respond = body => ({
+        status: 200,
+        body: { received: JSON.parse(body.toString()) }
+      });
+      const res = await conn.request({ method: "POST", body: { a: 1 } });
+      expect(res.body).to.eql({ received: { a: 1 } });
+      expect(requests[0].headers["content-type"]).to.equal("application/json");
+      expect(requests[0].headers).not.to.have.property("accept");
+    } finally {
+      conn.close();
+    }
+  });
+  it("maps VelocyPack error responses", async () => {
+    const conn = new Connection({ url, contentType: "vpack" });
+    try {
+      respond = () => ({
+        status: 404,
+        body: {
+          error: true,
+          code: 404,
+          errorNum: 1202,
+          errorMessage: "document not found"
+        }
+      });
+      await conn.request({ method: "GET" });
+      expect.fail();
+    } catch (e) {
+      expect(isArangoError(e)).to.equal(true);
+      expect(e.errorNum).to.equal(1202);
+    } finally {
+      conn.close();
+    }
+  });
+});
@@ -0,0 +1,142 @@
+import { expect } from "chai";
+import { createServer, IncomingHttpHeaders, Server } from "http";
+import { AddressInfo } from "net";
+import { deflateSync, gunzipSync, gzipSync } from "zlib";
+import { Connection } from "../connection";
+
+describe("Compression", () => {
+  let server: Server;
+  let url: string;
+  let requests: { headers: IncomingHttpHeaders; body: Buffer }[];
+  let encoding: "gzip" | "deflate" | undefined;
+  let unavailable: number;
+  before(done => {
+    server = createServer((req, res) => {
+      const data: Buffer[] = [];
+      req.on("data", chunk => data.push(chunk));
+      req.on("end", () => {
+        const raw = Buffer.concat(data);
+        requests.push({ headers: req.headers, body: raw });
+        if (unavailable > 0) {
+          unavailable -= 1;
+          res.writeHead(503, { "content-type": "application/json" });
+          res.end(JSON.stringify({ error: true, code: 503 }));
+          return;
+        }
+        const body =
+          req.headers["content-encoding"] === "gzip" ? gunzipSync(raw) : raw;
+        const json = Buffer.from(
+          JSON.stringify({ received: body.toString("utf-8") })
+        );
+        const headers: { [key: string]: string } = {
+          "content-type": "application/json"
+        };
+        if (encoding) headers["content-encoding"] = encoding;
+        res.writeHead(200, headers);
+        res.end(
+          encoding === "gzip"
+            ? gzipSync(json)
+            : encoding === "deflate"
+            ? deflateSync(json)
+            : json
+        );
+      });
+    });
+    server.listen(0, "127.0.0.1", () => {
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+  after(done => {
+    server.close(() => done());
+  });
+  beforeEach(() => {
+    requests = [];
+    encoding = undefined;
+    unavailable = 0;
+  });
+  it("does not compress by default", async () => {
+    const conn = new Connection({ url });
+    try {
+      await conn.request({ method: "POST", body: "x".repeat(2048) });
+      expect(requests[0].headers).not.to.have.property("accept-encoding");
+      expect(requests[0].headers).not.to.have.property("content-encoding");
+    } finally {
+      conn.close();
+    }
+  });
+  it("decompresses gzip responses", async () => {
+    const conn = new Connection({ url, compression: true });
+    try {
+      encoding = "gzip";
+      const res = await conn.request({ method: "POST", body: "hello" });
+      expect(requests[0].headers["accept-encoding"]).to.equal("gzip, deflate");
+      expect(res.body).to.eql({ received: "hello" });
+      expect(res.arangojsStats!.responseSize).to.be.greaterThan(0);
+      expect(res.arangojsStats!.responseEncodedSize).not.to.equal(
+        res.arangojsStats!.responseSize
+      );
+    } finally {
+      conn.close();
+    }
+  });
+  it("decompresses deflate responses", async () => {
+    const conn = new Connection({ url, compression: true });
+    try {
+      encoding = "deflate";
+      const res = await conn.request({ method: "POST", body: "hello" });
+      expect(res.body).to.eql({ received: "hello" });
+    } finally {
+      conn.close();
+    }
+  });
+  it("compresses request bodies above the threshold", async () => {
+    const conn = new Connection({ url, compression: { threshold: 100 } });
+    try {
+      const body = "x".repeat(2048);
+      const res = await conn.request({ method: "POST", body });
+      expect(requests[0].headers["content-encoding"]).to.equal("gzip");
+      expect(requests[0].body.length).to.be.lessThan(2048);
+      expect(res.body).to.eql({ received: body });
+      expect(res.arangojsStats!.requestSize).to.equal(2048);
+      expect(res.arangojsStats!.requestEncodedSize).to.equal(
+        requests[0].body.length
+      );
+    } finally {
+      conn.close();
+    }
+  });
+  it("does not compress request bodies below the threshold", async () => {
+    const conn = new Connection({ url, compression: { threshold: 100 } });
+    try {
+      const res = await conn.request({ method: "POST", body: "small" });
+      expect(requests[0].headers).not.to.have.property("content-encoding");
+      expect(res.arangojsStats!.requestEncodedSize).to.equal(5);
+    } finally {
+      conn.close();
+    }
+  });
+  it("compresses request bodies again when retrying", async () => {
+    const conn = new Connection({
+      url,
+      compression: { threshold: 100 },
+      retryPolicy: { minDelay: 1, shouldRetry: () => true }
+    });
+    try {
+      unavailable = 1;
+      const body = "x".repeat(2048);
+      const res = await conn.request({ method: "POST", body });
+      expect(requests).to.have.lengthOf(2);
+      for (const request of requests) {
+        expect(request.headers["content-encoding"]).to.equal("gzip");
+        expect(request.headers["content-length"]).to.equal(
+          String(request.body.length)
+        );
+        expect(gunzipSync(request.body).toString("utf-8")).to.equal(body);
+      }
+      expect(res.body).to.eql({ received: body });
+    } finally {
+      conn.close();
+    }
+  });
+});
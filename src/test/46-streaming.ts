@@ -0,0 +1,194 @@
+import { expect } from "chai";
+import { createServer, IncomingMessage, ServerResponse, Server } from "http";
+import { AddressInfo } from "net";
+import { Readable } from "stream";
+import { gzipSync } from "zlib";
+import { Connection } from "../connection";
+import { Database } from "../database";
+import { isAbortError, isArangoError } from "../error";
+import { createAbortController } from "./util/stubs";
+
+function readAll(stream: Readable): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const data: Buffer[] = [];
+    stream.on("data", chunk => data.push(chunk));
+    stream.on("end", () => resolve(Buffer.concat(data)));
+    stream.on("error", reject);
+  });
+}
+
+describe("Streaming responses", () => {
+  let server: Server;
+  let url: string;
+  let handler: (req: IncomingMessage, res: ServerResponse) => void;
+  before(done => {
+    server = createServer((req, res) => {
+      const data: Buffer[] = [];
+      req.on("data", chunk => data.push(chunk));
+      req.on("end", () => {
+        (req as any).body = Buffer.concat(data);
+        handler(req, res);
+      });
+    });
+    server.listen(0, "127.0.0.1", () => {
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+  after(done => {
+    server.close(() => done());
+  });
+  describe("connection.request", () => {
+    let conn: Connection;
+    beforeEach(() => {
+      conn = new Connection({ url });
+    });
+    afterEach(() => {
+      conn.close();
+    });
+    it("resolves with a stream of the response body", async () => {
+      let finish: () => void;
+      handler = (_req, res) => {
+        res.writeHead(200, { "content-type": "application/octet-stream" });
+        res.write("hello ");
+        finish = () => res.end("world");
+      };
+      const res = await conn.request({ expectStream: true });
+      expect(res.body).to.be.an.instanceof(Readable);
+      const body = readAll(res.body);
+      finish!();
+      expect((await body).toString()).to.equal("hello world");
+    });
+    it("decompresses streamed responses", async () => {
+      handler = (_req, res) => {
+        res.writeHead(200, {
+          "content-type": "application/octet-stream",
+          "content-encoding": "gzip"
+        });
+        res.end(gzipSync("compressed"));
+      };
+      const res = await conn.request({ expectStream: true });
+      expect((await readAll(res.body)).toString()).to.equal("compressed");
+    });
+    it("can be aborted while the body is streamed", async () => {
+      handler = (_req, res) => {
+        res.writeHead(200, { "content-type": "application/octet-stream" });
+        res.write("hello ");
+      };
+      const controller = createAbortController();
+      const res = await conn.request({
+        expectStream: true,
+        signal: controller.signal
+      });
+      const body = readAll(res.body);
+      controller.abort();
+      try {
+        await body;
+      } catch (e) {
+        expect(isAbortError(e)).to.equal(true);
+        expect(controller.listeners).to.have.lengthOf(0);
+        return;
+      }
+      expect.fail();
+    });
+    it("stops listening for aborts once the body has been read", async () => {
+      handler = (_req, res) => {
+        res.writeHead(200, { "content-type": "application/octet-stream" });
+        res.end("hello");
+      };
+      const controller = createAbortController();
+      const res = await conn.request({
+        expectStream: true,
+        signal: controller.signal
+      });
+      expect(controller.listeners).to.have.lengthOf(1);
+      await readAll(res.body);
+      expect(controller.listeners).to.have.lengthOf(0);
+    });
+    it("rejects with an ArangoError for error responses", async () => {
+      handler = (_req, res) => {
+        res.writeHead(404, { "content-type": "application/json" });
+        res.end(
+          JSON.stringify({
+            error: true,
+            code: 404,
+            errorNum: 3009,
+            errorMessage: "service not found"
+          })
+        );
+      };
+      try {
+        await conn.request({ expectStream: true });
+      } catch (e) {
+        expect(isArangoError(e)).to.equal(true);
+        expect(e.errorNum).to.equal(3009);
+        return;
+      }
+      expect.fail();
+    });
+  });
+  describe("database.downloadServiceStream", () => {
+    it("streams the service bundle", async () => {
+      const db = new Database({ url });
+      try {
+        let path: string | undefined;
+        handler = (req, res) => {
+          path = req.url;
+          res.writeHead(200, { "content-type": "application/zip" });
+          res.end(Buffer.from([1, 2, 3]));
+        };
+        const stream = (await db.downloadServiceStream("/my-foxx")) as Readable;
+        expect([...(await readAll(stream))]).to.eql([1, 2, 3]);
+        expect(path).to.equal(
+          "/_db/_system/_api/foxx/download?mount=%2Fmy-foxx"
+        );
+      } finally {
+        db.close();
+      }
+    });
+  });
+  describe("collection.exportStream", () => {
+    it("streams the exported documents", async () => {
+      const db = new Database({ url });
+      try {
+        const requests: { method?: string; url?: string; body: any }[] = [];
+        handler = (req, res) => {
+          const body = (req as any).body.toString();
+          requests.push({
+            method: req.method,
+            url: req.url,
+            body: body ? JSON.parse(body) : undefined
+          });
+          res.writeHead(200, { "content-type": "application/json" });
+          res.end(
+            JSON.stringify(
+              req.method === "POST"
+                ? { id: "123", hasMore: true, result: [{ _key: "a" }] }
+                : { id: "123", hasMore: false, result: [{ _key: "b" }] }
+            )
+          );
+        };
+        const stream = (await db.collection("test").exportStream({
+          batchSize: 1
+        })) as Readable;
+        const docs: any[] = [];
+        for await (const doc of stream) docs.push(doc);
+        expect(docs).to.eql([{ _key: "a" }, { _key: "b" }]);
+        expect(requests).to.eql([
+          {
+            method: "POST",
+            url: "/_db/_system/_api/export?collection=test",
+            body: { batchSize: 1 }
+          },
+          {
+            method: "PUT",
+            url: "/_db/_system/_api/cursor/123",
+            body: undefined
+          }
+        ]);
+      } finally {
+        db.close();
+      }
+    });
+  });
+});
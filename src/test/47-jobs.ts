@@ -0,0 +1,136 @@
+import { expect } from "chai";
+import { Database } from "../database";
+import { isArangoError } from "../error";
+import { ArangoJob } from "../job";
+import { createHost, response, stubHosts } from "./util/stubs";
+
+describe("Async jobs", () => {
+  let db: Database;
+  let calls: { method: string; path: string; search?: string; headers: any }[];
+  let respond: (method: string, path: string) => any;
+  beforeEach(() => {
+    db = new Database();
+    calls = [];
+    stubHosts(db, [
+      createHost(({ method, url, headers }) => {
+        const path = url.pathname.replace(/^\/_db\/_system/, "");
+        calls.push({ method, path, search: url.search, headers });
+        return respond(method, path);
+      })
+    ]);
+  });
+  describe("collection.truncate", () => {
+    it("can be performed as a stored async job", async () => {
+      respond = () => response(202, undefined, { "x-arango-async-id": "123" });
+      const job = await db.collection("test").truncate({ async: "store" });
+      expect(job).to.be.an.instanceof(ArangoJob);
+      expect(job.id).to.equal("123");
+      expect(calls[0]).to.include({
+        method: "PUT",
+        path: "/_api/collection/test/truncate"
+      });
+      expect(calls[0].headers["x-arango-async"]).to.equal("store");
+    });
+    it("can be performed as a fire-and-forget job", async () => {
+      respond = () => response(202);
+      const job = await db.collection("test").truncate({ async: true });
+      expect(job).to.equal(undefined);
+      expect(calls[0].headers["x-arango-async"]).to.equal("true");
+    });
+    it("is performed synchronously by default", async () => {
+      respond = () => response(200, { name: "test" });
+      expect(await db.collection("test").truncate()).to.eql({ name: "test" });
+      expect(calls[0].headers).not.to.have.property("x-arango-async");
+    });
+    it("rejects if the server did not return a job ID", async () => {
+      respond = () => response(200, { name: "test" });
+      try {
+        await db.collection("test").truncate({ async: "store" });
+      } catch (e) {
+        expect(e.message).to.contain("No async job ID");
+        return;
+      }
+      expect.fail();
+    });
+  });
+  describe("collection.import", () => {
+    it("can be performed as a stored async job", async () => {
+      respond = () => response(202, undefined, { "x-arango-async-id": "456" });
+      const job = await db
+        .collection("test")
+        .import([{ _key: "a" }], { async: "store", type: "documents" });
+      expect(job.id).to.equal("456");
+      expect(calls[0]).to.include({ method: "POST", path: "/_api/import" });
+      expect(calls[0].search).to.equal("?type=documents&collection=test");
+      expect(calls[0].headers["x-arango-async"]).to.equal("store");
+    });
+  });
+  describe("job.getStatus", () => {
+    it("returns pending for unfinished jobs", async () => {
+      respond = () => response(204);
+      expect(await db.job("123").getStatus()).to.equal("pending");
+      expect(calls[0]).to.include({ method: "GET", path: "/_api/job/123" });
+    });
+    it("returns done for finished jobs", async () => {
+      respond = () => response(200);
+      expect(await db.job("123").getStatus()).to.equal("done");
+    });
+  });
+  describe("job.getResult", () => {
+    it("returns the response body of the job", async () => {
+      respond = () =>
+        response(200, { result: true }, { "x-arango-async-id": "123" });
+      expect(await db.job("123").getResult()).to.eql({ result: true });
+      expect(calls[0]).to.include({ method: "PUT", path: "/_api/job/123" });
+    });
+    it("returns undefined for unfinished jobs", async () => {
+      respond = () => response(204);
+      expect(await db.job("123").getResult()).to.equal(undefined);
+    });
+    it("rejects with the error of failed jobs", async () => {
+      respond = () =>
+        response(404, {
+          error: true,
+          code: 404,
+          errorNum: 1203,
+          errorMessage: "collection or view not found"
+        });
+      try {
+        await db.job("123").getResult();
+      } catch (e) {
+        expect(isArangoError(e)).to.equal(true);
+        expect(e.errorNum).to.equal(1203);
+        return;
+      }
+      expect.fail();
+    });
+  });
+  describe("job management", () => {
+    it("cancels and deletes jobs", async () => {
+      respond = () => response(200, { result: true });
+      expect(await db.job("123").cancel()).to.equal(true);
+      expect(await db.job("123").delete()).to.equal(true);
+      expect(calls.map(call => [call.method, call.path])).to.eql([
+        ["PUT", "/_api/job/123/cancel"],
+        ["DELETE", "/_api/job/123"]
+      ]);
+    });
+    it("lists pending and completed jobs", async () => {
+      respond = (_method, path) =>
+        response(200, path.endsWith("pending") ? ["1"] : ["2", "3"]);
+      expect(await db.listPendingJobs(10)).to.eql(["1"]);
+      expect(await db.listCompletedJobs()).to.eql(["2", "3"]);
+      expect(calls[0].search).to.equal("?count=10");
+      expect(calls[1].search).to.equal(undefined);
+    });
+    it("deletes expired and all jobs", async () => {
+      respond = () => response(200, { result: true });
+      await db.deleteExpiredJobs(1500000000000);
+      await db.deleteAllJobs();
+      expect(calls.map(call => [call.method, call.path, call.search])).to.eql([
+        ["DELETE", "/_api/job/expired", "?stamp=1500000000"],
+        ["DELETE", "/_api/job/all", undefined]
+      ]);
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import { expect } from "chai";
+import { Database } from "../database";
+import { isAbortError, isArangoError } from "../error";
+import {
+  createAbortController,
+  createHost,
+  response,
+  stubHosts
+} from "./util/stubs";
+
+const BOUNDARY = "response-boundary";
+
+type Part = { method: string; path: string; headers: string[]; body: string };
+
+function parseBatch(body: Buffer, contentType: string): Part[] {
+  const boundary = contentType.split("boundary=")[1];
+  return body
+    .toString("binary")
+    .split(`--${boundary}`)
+    .slice(1, -1)
+    .map(chunk => {
+      const [, request] = chunk.split("\r\n\r\n");
+      const [head, ...rest] = chunk
+        .slice(chunk.indexOf(request))
+        .split("\r\n\r\n");
+      const [requestLine, ...headers] = head.split("\r\n");
+      const [method, path] = requestLine.split(" ");
+      const body = rest.join("\r\n\r\n").replace(/\r\n$/, "");
+      return { method, path, headers, body };
+    });
+}
+
+function formatBatch(responses: { status: number; body: any }[]) {
+  const parts = responses.map(
+    ({ status, body }, i) =>
+      [
+        `--${BOUNDARY}`,
+        "Content-Type: application/x-arango-batchpart",
+        `Content-Id: ${i + 1}`,
+        "",
+        `HTTP/1.1 ${status} OK`,
+        "Content-Type: application/json; charset=utf-8",
+        "",
+        JSON.stringify(body)
+      ].join("\r\n") + "\r\n"
+  );
+  return parts.join("") + `--${BOUNDARY}--`;
+}
+
+describe("Batch requests", () => {
+  let db: Database;
+  let calls: { method: string; path: string; parts?: Part[] }[];
+  let respond: (parts: Part[]) => { status: number; body: any }[];
+  beforeEach(() => {
+    db = new Database();
+    calls = [];
+    stubHosts(db, [
+      createHost(({ method, url, headers, body }) => {
+        const parts = url.pathname.endsWith("/_api/batch")
+          ? parseBatch(body, headers["content-type"])
+          : undefined;
+        calls.push({ method, path: url.pathname, parts });
+        if (!parts) return response(200, { result: [] });
+        return {
+          statusCode: 200,
+          headers: {
+            "content-type": `multipart/form-data; boundary=${BOUNDARY}`
+          },
+          body: Buffer.from(formatBatch(respond(parts)))
+        };
+      })
+    ]);
+  });
+  it("sends all requests in a single batch request", async () => {
+    respond = parts =>
+      parts.map(part => ({
+        status: 200,
+        body: { _key: part.path.split("/").pop() }
+      }));
+    const collection = db.collection("test");
+    const [a, b] = await db.batch(() =>
+      Promise.all([collection.document("a"), collection.document("b")])
+    );
+    expect(a).to.eql({ _key: "a" });
+    expect(b).to.eql({ _key: "b" });
+    expect(calls.length).to.equal(1);
+    expect(calls[0].method).to.equal("POST");
+    expect(calls[0].path).to.equal("/_db/_system/_api/batch");
+    expect(calls[0].parts!.map(part => [part.method, part.path])).to.eql([
+      ["GET", "/_db/_system/_api/document/test/a"],
+      ["GET", "/_db/_system/_api/document/test/b"]
+    ]);
+  });
+  it("includes request bodies", async () => {
+    respond = parts => parts.map(() => ({ status: 202, body: { _key: "x" } }));
+    await db.batch(() => db.collection("test").save({ hello: "world" }));
+    const [part] = calls[0].parts!;
+    expect(part.method).to.equal("POST");
+    expect(part.headers).to.include("content-type: application/json");
+    expect(JSON.parse(part.body)).to.eql({ hello: "world" });
+  });
+  it("sends binary request bodies unchanged", async () => {
+    respond = parts => parts.map(() => ({ status: 200, body: {} }));
+    const data = Buffer.from([0x00, 0xff, 0x0d, 0x0a, 0x80, 0x7f]);
+    await db.batch(() =>
+      db.route("/_api/binary").request({
+        method: "POST",
+        body: data,
+        isBinary: true
+      })
+    );
+    const [part] = calls[0].parts!;
+    expect(part.headers).to.include("content-type: application/octet-stream");
+    expect(Buffer.from(part.body, "binary")).to.eql(data);
+  });
+  it("runs beforeRequest interceptors for each request", async () => {
+    respond = parts => parts.map(() => ({ status: 200, body: {} }));
+    db.addInterceptor({
+      beforeRequest: task => {
+        task.options.headers["x-request-id"] = task.options.url.pathname
+          .split("/")
+          .pop()!;
+      }
+    });
+    const collection = db.collection("test");
+    await db.batch(() =>
+      Promise.all([collection.document("a"), collection.document("b")])
+    );
+    expect(calls.length).to.equal(1);
+    expect(calls[0].parts![0].headers).to.include("x-request-id: a");
+    expect(calls[0].parts![1].headers).to.include("x-request-id: b");
+  });
+  it("leaves out requests aborted before the batch is sent", async () => {
+    respond = parts => parts.map(() => ({ status: 200, body: { _key: "b" } }));
+    const controller = createAbortController();
+    const collection = db.collection("test");
+    const results = await db.batch(() => {
+      const promises = [
+        db
+          .route("/_api/document/test/a")
+          .request({ signal: controller.signal })
+          .catch(err => err),
+        collection.document("b")
+      ];
+      controller.abort();
+      return Promise.all(promises);
+    });
+    expect(isAbortError(results[0])).to.equal(true);
+    expect(results[1]).to.eql({ _key: "b" });
+    expect(calls[0].parts!.map(part => part.path)).to.eql([
+      "/_db/_system/_api/document/test/b"
+    ]);
+    expect(controller.listeners).to.have.lengthOf(0);
+  });
+  it("rejects requests aborted while the batch is pending", async () => {
+    respond = parts => parts.map(() => ({ status: 200, body: {} }));
+    const controller = createAbortController();
+    const result = db.batch(() =>
+      db
+        .route("/_api/document/test/a")
+        .request({ signal: controller.signal })
+        .catch(err => err)
+    );
+    await new Promise(resolve => setImmediate(resolve));
+    expect(calls.length).to.equal(1);
+    controller.abort();
+    expect(isAbortError(await result)).to.equal(true);
+  });
+  it("rejects individual requests with their errors", async () => {
+    respond = () => [
+      { status: 200, body: { _key: "a" } },
+      {
+        status: 404,
+        body: {
+          error: true,
+          code: 404,
+          errorNum: 1202,
+          errorMessage: "document not found"
+        }
+      }
+    ];
+    const collection = db.collection("test");
+    const results = await db.batch(() =>
+      Promise.all([
+        collection.document("a"),
+        collection.document("b").catch(err => err)
+      ])
+    );
+    expect(results[0]).to.eql({ _key: "a" });
+    expect(isArangoError(results[1])).to.equal(true);
+    expect(results[1].errorNum).to.equal(1202);
+  });
+  it("does not affect requests made after the function returns", async () => {
+    respond = parts => parts.map(() => ({ status: 200, body: {} }));
+    await db.batch(() => db.collection("test").document("a"));
+    await db.listTransactions();
+    expect(calls.map(call => call.path)).to.eql([
+      "/_db/_system/_api/batch",
+      "/_db/_system/_api/transaction"
+    ]);
+  });
+});
@@ -0,0 +1,126 @@
+import { expect } from "chai";
+import { Database } from "../database";
+import { isArangoError } from "../error";
+import { createHost, response, stubHosts } from "./util/stubs";
+
+const NOT_FOUND = {
+  error: true,
+  errorNum: 1202,
+  errorMessage: "document not found"
+};
+
+describe("Document loader", () => {
+  let db: Database;
+  let calls: { method: string; path: string; search?: string; body: any }[];
+  let fail: Error | undefined;
+  beforeEach(() => {
+    db = new Database();
+    calls = [];
+    fail = undefined;
+    stubHosts(db, [
+      createHost(({ method, url, body }) => {
+        const keys = JSON.parse(body);
+        calls.push({
+          method,
+          path: url.pathname,
+          search: url.search,
+          body: keys
+        });
+        if (fail) return fail;
+        return response(
+          200,
+          keys.map((key: string) =>
+            key.startsWith("missing") ? NOT_FOUND : { _key: key }
+          )
+        );
+      })
+    ]);
+  });
+  it("combines concurrent loads into a single request", async () => {
+    const loader = db.collection("test").loader();
+    const docs = await Promise.all([
+      loader.load("a"),
+      loader.load("test/b"),
+      loader.load({ _key: "c" })
+    ]);
+    expect(docs).to.eql([{ _key: "a" }, { _key: "b" }, { _key: "c" }]);
+    expect(calls).to.eql([
+      {
+        method: "PUT",
+        path: "/_db/_system/_api/document/test",
+        search: "?onlyget=true",
+        body: ["a", "b", "c"]
+      }
+    ]);
+  });
+  it("deduplicates keys", async () => {
+    const loader = db.collection("test").loader({ cache: false });
+    const docs = await loader.loadMany(["a", "a", "test/a"]);
+    expect(docs).to.eql([{ _key: "a" }, { _key: "a" }, { _key: "a" }]);
+    expect(calls[0].body).to.eql(["a"]);
+  });
+  it("caches loaded documents", async () => {
+    const loader = db.collection("test").loader();
+    await loader.load("a");
+    await loader.load("a");
+    expect(calls.length).to.equal(1);
+    loader.clear("a");
+    await loader.load("a");
+    expect(calls.length).to.equal(2);
+  });
+  it("does not cache documents if disabled", async () => {
+    const loader = db.collection("test").loader({ cache: false });
+    await loader.load("a");
+    await loader.load("a");
+    expect(calls.length).to.equal(2);
+  });
+  it("splits requests according to maxBatchSize", async () => {
+    const loader = db.collection("test").loader({ maxBatchSize: 2 });
+    await loader.loadMany(["a", "b", "c"]);
+    expect(calls.map(call => call.body)).to.eql([["a", "b"], ["c"]]);
+  });
+  it("rejects missing documents with an ArangoError", async () => {
+    const loader = db.collection("test").loader();
+    const [doc, err] = await Promise.all([
+      loader.load("a"),
+      loader.load("missing").catch(err => err)
+    ]);
+    expect(doc).to.eql({ _key: "a" });
+    expect(isArangoError(err)).to.equal(true);
+    expect(err.errorNum).to.equal(1202);
+    expect(err.statusCode).to.equal(404);
+  });
+  it("resolves missing documents with null if graceful", async () => {
+    const loader = db.collection("test").loader();
+    const docs = await Promise.all([
+      loader.load("missing", true),
+      loader.load("missing").catch(err => err)
+    ]);
+    expect(docs[0]).to.equal(null);
+    expect(isArangoError(docs[1])).to.equal(true);
+    expect(calls[0].body).to.eql(["missing"]);
+  });
+  it("rejects documents of other collections", async () => {
+    const loader = db.collection("test").loader();
+    try {
+      await loader.load("other/a");
+    } catch (e) {
+      expect(e.message).to.contain("does not belong");
+      expect(calls.length).to.equal(0);
+      return;
+    }
+    expect.fail();
+  });
+  it("does not cache failed requests", async () => {
+    const loader = db.collection("test").loader();
+    fail = Object.assign(new Error("boom"), { code: "EBOOM" });
+    try {
+      await loader.load("a");
+      expect.fail();
+    } catch (e) {
+      expect(e.message).to.equal("boom");
+    }
+    fail = undefined;
+    expect(await loader.load("a")).to.eql({ _key: "a" });
+  });
+});
@@ -0,0 +1,113 @@
+import { expect } from "chai";
+import { DocumentCollection } from "../collection";
+import { Database } from "../database";
+import { createHost, response, stubHosts } from "./util/stubs";
+
+describe("Document cache", () => {
+  let db: Database;
+  let collection: DocumentCollection;
+  let calls: { method: string; path: string; headers: any }[];
+  let docs: { [key: string]: any };
+  beforeEach(() => {
+    db = new Database();
+    collection = db.collection("test");
+    calls = [];
+    docs = { a: { _key: "a", _rev: "1", value: 1 } };
+    stubHosts(db, [
+      createHost(({ method, url, headers }) => {
+        calls.push({ method, path: url.pathname, headers });
+        const key = url.pathname.split("/").pop();
+        const doc = docs[key];
+        if (!doc && method === "GET") {
+          return response(404, {
+            error: true,
+            code: 404,
+            errorNum: 1202,
+            errorMessage: "document not found"
+          });
+        }
+        if (
+          doc &&
+          method === "GET" &&
+          headers["if-none-match"] === `"${doc._rev}"`
+        ) {
+          return { statusCode: 304, headers: {}, body: Buffer.from("") };
+        }
+        return response(200, doc || {});
+      })
+    ]);
+  });
+  it("does not cache documents by default", async () => {
+    await collection.document("a");
+    await collection.document("a");
+    expect(calls[1].headers).not.to.have.property("if-none-match");
+    expect(collection.getCacheStats()).to.equal(undefined);
+  });
+  it("revalidates cached documents using their revision", async () => {
+    collection.useCache();
+    const doc1 = await collection.document("a");
+    const doc2 = await collection.document("a");
+    expect(doc1).to.eql(docs.a);
+    expect(doc2).to.eql(docs.a);
+    expect(doc2).not.to.equal(doc1);
+    expect(calls[0].headers).not.to.have.property("if-none-match");
+    expect(calls[1].headers["if-none-match"]).to.equal('"1"');
+    expect(collection.getCacheStats()).to.include({
+      size: 1,
+      misses: 1,
+      revalidations: 1,
+      hits: 0,
+      hitRate: 0.5
+    });
+  });
+  it("fetches changed documents", async () => {
+    collection.useCache();
+    await collection.document("a");
+    docs.a = { _key: "a", _rev: "2", value: 2 };
+    expect(await collection.document("a")).to.eql(docs.a);
+    expect(collection.getCacheStats()).to.include({ misses: 2 });
+  });
+  it("serves fresh documents without a request", async () => {
+    collection.useCache({ ttl: 60000 });
+    await collection.document("a");
+    expect(await collection.document("a")).to.eql(docs.a);
+    expect(calls.length).to.equal(1);
+    expect(collection.getCacheStats()).to.include({ hits: 1, misses: 1 });
+  });
+  it("evicts the least recently used documents", async () => {
+    docs.b = { _key: "b", _rev: "1" };
+    docs.c = { _key: "c", _rev: "1" };
+    collection.useCache({ maxSize: 2, ttl: 60000 });
+    await collection.document("a");
+    await collection.document("b");
+    await collection.document("a");
+    await collection.document("c");
+    expect(collection.getCacheStats()).to.include({ size: 2, evictions: 1 });
+    calls = [];
+    await collection.document("a");
+    await collection.document("b");
+    expect(calls.length).to.equal(1);
+    expect(calls[0].path).to.match(/\/test\/b$/);
+  });
+  it("invalidates documents when they are modified", async () => {
+    collection.useCache({ ttl: 60000 });
+    await collection.document("a");
+    await collection.update("a", { value: 2 });
+    docs.a = { _key: "a", _rev: "2", value: 2 };
+    expect(await collection.document("a")).to.eql(docs.a);
+    expect(calls.map(call => call.method)).to.eql(["GET", "PATCH", "GET"]);
+  });
+  it("invalidates all documents when the collection is truncated", async () => {
+    collection.useCache({ ttl: 60000 });
+    await collection.document("a");
+    await collection.truncate();
+    expect(collection.getCacheStats()).to.include({ size: 0 });
+  });
+  it("removes documents that no longer exist", async () => {
+    collection.useCache();
+    await collection.document("a");
+    delete docs.a;
+    expect(await collection.document("a", true)).to.equal(null);
+    expect(collection.getCacheStats()).to.include({ size: 0 });
+  });
+});
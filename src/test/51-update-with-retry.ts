@@ -0,0 +1,107 @@
+import { expect } from "chai";
+import { DocumentCollection } from "../collection";
+import { Database } from "../database";
+import { isArangoError } from "../error";
+import { createHost, response, stubHosts } from "./util/stubs";
+
+const CONFLICT = {
+  error: true,
+  code: 412,
+  errorNum: 1200,
+  errorMessage: "precondition failed"
+};
+
+describe("collection.updateWithRetry", () => {
+  let db: Database;
+  let collection: DocumentCollection;
+  let calls: { method: string; search?: string; headers: any; body: any }[];
+  let doc: any;
+  let conflicts: number;
+  beforeEach(() => {
+    db = new Database();
+    collection = db.collection("test");
+    calls = [];
+    doc = { _key: "a", _id: "test/a", _rev: "1", count: 0 };
+    conflicts = 0;
+    stubHosts(db, [
+      createHost(({ method, url, headers, body }) => {
+        calls.push({
+          method,
+          search: url.search,
+          headers,
+          body: body && JSON.parse(body)
+        });
+        if (method === "GET") return response(200, doc);
+        if (conflicts > 0) {
+          conflicts -= 1;
+          doc = { ...doc, _rev: String(Number(doc._rev) + 1) };
+        }
+        if (headers["if-match"] !== doc._rev) return response(412, CONFLICT);
+        doc = {
+          ...JSON.parse(body),
+          _key: "a",
+          _id: "test/a",
+          _rev: String(Number(doc._rev) + 1)
+        };
+        return response(201, { _key: "a", _rev: doc._rev, new: doc });
+      })
+    ]);
+  });
+  it("replaces the document using its revision", async () => {
+    const result = await collection.updateWithRetry("a", current => ({
+      ...current,
+      count: current.count + 1
+    }));
+    expect(result).to.include({ _rev: "2", count: 1 });
+    expect(calls.map(call => call.method)).to.eql(["GET", "PUT"]);
+    expect(calls[1].headers["if-match"]).to.equal("1");
+    expect(calls[1].search).to.contain("ignoreRevs=false");
+    expect(calls[1].search).to.contain("returnNew=true");
+  });
+  it("retries if the document was modified concurrently", async () => {
+    conflicts = 2;
+    let invocations = 0;
+    const result = await collection.updateWithRetry("a", current => {
+      invocations += 1;
+      return { ...current, count: current.count + 1 };
+    });
+    expect(invocations).to.equal(3);
+    expect(result).to.include({ count: 1 });
+    expect(calls.map(call => call.method)).to.eql([
+      "GET",
+      "PUT",
+      "GET",
+      "PUT",
+      "GET",
+      "PUT"
+    ]);
+  });
+  it("fails if the retry limit is exceeded", async () => {
+    conflicts = 3;
+    try {
+      await collection.updateWithRetry(
+        "a",
+        current => ({ ...current, count: current.count + 1 }),
+        { retries: 2 }
+      );
+    } catch (e) {
+      expect(isArangoError(e)).to.equal(true);
+      expect(e.statusCode).to.equal(412);
+      expect(calls.length).to.equal(6);
+      return;
+    }
+    expect.fail();
+  });
+  it("does not retry other errors", async () => {
+    try {
+      await collection.updateWithRetry("a", () => {
+        throw new Error("nope");
+      });
+    } catch (e) {
+      expect(e.message).to.equal("nope");
+      expect(calls.length).to.equal(1);
+      return;
+    }
+    expect.fail();
+  });
+});
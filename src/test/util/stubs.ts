@@ -0,0 +1,70 @@
+import { Connection } from "../../connection";
+import { Database } from "../../database";
+
+export type StubResponse = {
+  statusCode: number;
+  headers: { [key: string]: string };
+  body: Buffer;
+};
+
+export type StubHost = (options: any, cb: Function) => void;
+
+export function response(
+  statusCode: number,
+  body?: any,
+  headers: { [key: string]: string } = {}
+): StubResponse {
+  return {
+    statusCode,
+    headers: { "content-type": "application/json", ...headers },
+    body: Buffer.from(body === undefined ? "" : JSON.stringify(body))
+  };
+}
+
+export function systemError(code: string, message: string = code) {
+  const err = new Error(message);
+  (err as any).code = code;
+  return err;
+}
+
+export function createHost(
+  handler: (options: any) => StubResponse | Error | undefined,
+  delay: number = 1
+): StubHost {
+  return (options: any, cb: Function) => {
+    const result = handler(options);
+    if (!result) return;
+    setTimeout(() => {
+      if (result instanceof Error) cb(result);
+      else cb(null, result);
+    }, delay);
+  };
+}
+
+export function stubHosts(target: Connection | Database, hosts: StubHost[]) {
+  const connection =
+    target instanceof Database ? (target as any)._connection : target;
+  connection._hosts = hosts;
+}
+
+export function createAbortController() {
+  const listeners: Function[] = [];
+  const signal = {
+    aborted: false,
+    addEventListener(_type: string, listener: Function) {
+      listeners.push(listener);
+    },
+    removeEventListener(_type: string, listener: Function) {
+      const i = listeners.indexOf(listener);
+      if (i !== -1) listeners.splice(i, 1);
+    }
+  };
+  return {
+    signal: (signal as any) as AbortSignal,
+    listeners,
+    abort() {
+      signal.aborted = true;
+      for (const listener of listeners.slice()) listener();
+    }
+  };
+}
@@ -0,0 +1,3 @@
+export function atob(str: string) {
+  return window.atob(str);
+}
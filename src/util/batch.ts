@@ -0,0 +1,92 @@
+import { joinPath } from "./joinPath";
+import { Fields, toForm } from "./multipart";
+
+const BATCH_PART_CONTENT_TYPE = "application/x-arango-batchpart";
+const CRLF = "\r\n";
+const SEPARATOR = CRLF + CRLF;
+
+export type BatchRequestPart = {
+  method: string;
+  url: { pathname: string; search?: string };
+  headers: { [key: string]: string };
+  body?: any;
+};
+
+export type BatchResponsePart = {
+  statusCode: number;
+  headers: { [key: string]: string };
+  body: Buffer;
+};
+
+function parseHeaders(lines: string[]) {
+  const headers: { [key: string]: string } = {};
+  for (const line of lines) {
+    const i = line.indexOf(":");
+    if (i === -1) continue;
+    const key = line.slice(0, i).trim();
+    headers[key.toLowerCase()] = line.slice(i + 1).trim();
+  }
+  return headers;
+}
+
+function toMessage({ method, url, headers, body }: BatchRequestPart) {
+  const lines = [
+    `${method} ${joinPath("/", url.pathname)}${url.search || ""} HTTP/1.1`
+  ];
+  for (const key of Object.keys(headers)) {
+    if (key === "content-length" || key === "authorization") continue;
+    lines.push(`${key}: ${headers[key]}`);
+  }
+  const head = Buffer.from(lines.join(CRLF) + SEPARATOR);
+  if (!body) return head;
+  return Buffer.concat([
+    head,
+    Buffer.isBuffer(body) ? body : Buffer.from(String(body))
+  ]);
+}
+
+export function toBatch(parts: BatchRequestPart[]) {
+  const fields: Fields = {};
+  parts.forEach((part, i) => {
+    fields[String(i + 1)] = toMessage(part);
+  });
+  return toForm(fields, BATCH_PART_CONTENT_TYPE);
+}
+
+export function fromBatch(body: Buffer, contentType: string = "") {
+  const match = contentType.match(/boundary=(?:"([^"]+)"|([^;\s]+))/);
+  if (!match) {
+    throw new Error("Batch response does not specify a multipart boundary");
+  }
+  const delimiter = `--${match[1] || match[2]}`;
+  const results: BatchResponsePart[] = [];
+  let start = body.indexOf(delimiter);
+  while (start !== -1) {
+    start += delimiter.length;
+    if (body.toString("utf-8", start, start + 2) === "--") break;
+    let end = body.indexOf(delimiter, start);
+    if (end === -1) end = body.length;
+    const chunk = body.slice(start, end);
+    start = end < body.length ? end : -1;
+    const i = chunk.indexOf(SEPARATOR);
+    if (i === -1) continue;
+    const partHeaders = parseHeaders(chunk.toString("utf-8", 0, i).split(CRLF));
+    let message = chunk.slice(i + SEPARATOR.length);
+    if (message.slice(-CRLF.length).toString() === CRLF) {
+      message = message.slice(0, -CRLF.length);
+    }
+    const j = message.indexOf(SEPARATOR);
+    const [statusLine, ...headerLines] = message
+      .toString("utf-8", 0, j === -1 ? message.length : j)
+      .split(CRLF);
+    const part = {
+      statusCode: Number(statusLine.split(" ")[1]),
+      headers: parseHeaders(headerLines),
+      body: j === -1 ? Buffer.alloc(0) : message.slice(j + SEPARATOR.length)
+    };
+    const id = Number(partHeaders["content-id"]);
+    if (id > 0) results[id - 1] = part;
+    else results.push(part);
+  }
+  return results;
+}
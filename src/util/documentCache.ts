@@ -0,0 +1,88 @@
+export type DocumentCacheOptions = {
+  maxSize?: number;
+  ttl?: number;
+};
+
+export type DocumentCacheStats = {
+  size: number;
+  maxSize: number;
+  hits: number;
+  revalidations: number;
+  misses: number;
+  evictions: number;
+  hitRate: number;
+};
+
+export type DocumentCacheEntry = {
+  rev: string;
+  json: string;
+  cachedAt: number;
+};
+
+type DocumentCacheCounter = "hits" | "revalidations" | "misses";
+
+export class DocumentCache {
+  private _entries = new Map<string, DocumentCacheEntry>();
+  private _maxSize: number;
+  private _ttl: number;
+  private _counters = { hits: 0, revalidations: 0, misses: 0, evictions: 0 };
+
+  constructor({ maxSize = 1000, ttl = 0 }: DocumentCacheOptions = {}) {
+    this._maxSize = maxSize;
+    this._ttl = ttl;
+  }
+
+  get(id: string) {
+    const entry = this._entries.get(id);
+    if (!entry) return undefined;
+    this._entries.delete(id);
+    this._entries.set(id, entry);
+    return entry;
+  }
+
+  isFresh(entry: DocumentCacheEntry) {
+    return Date.now() - entry.cachedAt < this._ttl;
+  }
+
+  set(id: string, document: any) {
+    this._entries.delete(id);
+    if (!document || !document._rev) return;
+    this._entries.set(id, {
+      rev: document._rev,
+      json: JSON.stringify(document),
+      cachedAt: Date.now()
+    });
+    for (const key of this._entries.keys()) {
+      if (this._entries.size <= this._maxSize) break;
+      this._entries.delete(key);
+      this._counters.evictions += 1;
+    }
+  }
+
+  revalidate(entry: DocumentCacheEntry) {
+    entry.cachedAt = Date.now();
+  }
+
+  delete(id: string) {
+    this._entries.delete(id);
+  }
+
+  clear() {
+    this._entries.clear();
+  }
+
+  record(counter: DocumentCacheCounter) {
+    this._counters[counter] += 1;
+  }
+
+  getStats(): DocumentCacheStats {
+    const { hits, revalidations, misses } = this._counters;
+    const total = hits + revalidations + misses;
+    return {
+      ...this._counters,
+      size: this._entries.size,
+      maxSize: this._maxSize,
+      hitRate: total ? (hits + revalidations) / total : 0
+    };
+  }
+}
@@ -1,7 +1,11 @@
 import { Readable } from "stream";
 
 declare class MultiPart {
-  append(key: string, value: Readable | Buffer | string): void;
+  append(
+    key: string,
+    value: Readable | Buffer | string,
+    options?: { contentType?: string }
+  ): void;
   getBoundary(): string;
   getStream(): Readable;
 }
@@ -17,7 +21,10 @@ export type MultipartRequest = {
   body: Buffer | FormData;
 };
 
-export function toForm(fields: Fields): Promise<MultipartRequest> {
+export function toForm(
+  fields: Fields,
+  contentType?: string
+): Promise<MultipartRequest> {
   return new Promise((resolve, reject) => {
     try {
       const form = new Multipart();
@@ -31,7 +38,7 @@ export function toForm(fields: Fields): Promise<MultipartRequest> {
         ) {
           value = JSON.stringify(value);
         }
-        form.append(key, value);
+        form.append(key, value, { contentType });
       }
       const stream = form.getStream();
       const bufs: Buffer[] = [];
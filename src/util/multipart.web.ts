@@ -1,25 +1,28 @@
 import { Fields, MultipartRequest } from "./multipart";
 
-import { Errback } from "./types";
-
-export function toForm(fields: Fields, callback: Errback<MultipartRequest>) {
-  let form;
-  try {
-    form = new FormData();
-    for (const key of Object.keys(fields)) {
-      let value = fields[key];
-      if (value === undefined) continue;
-      if (
-        !(value instanceof Blob) &&
-        (typeof value === "object" || typeof value === "function")
-      ) {
-        value = JSON.stringify(value);
+export function toForm(
+  fields: Fields,
+  contentType?: string
+): Promise<MultipartRequest> {
+  return new Promise((resolve, reject) => {
+    try {
+      const form = new FormData();
+      for (const key of Object.keys(fields)) {
+        let value = fields[key];
+        if (value === undefined) continue;
+        if (value instanceof Uint8Array) {
+          value = new Blob([value], { type: contentType });
+        } else if (
+          !(value instanceof Blob) &&
+          (typeof value === "object" || typeof value === "function")
+        ) {
+          value = JSON.stringify(value);
+        }
+        form.append(key, value);
       }
-      form.append(key, value);
+      resolve({ body: form });
+    } catch (e) {
+      reject(e);
     }
-  } catch (e) {
-    callback(e);
-    return;
-  }
-  callback(null, { body: form });
+  });
 }
@@ -0,0 +1,49 @@
+import { LinkedList } from "x3-linkedlist";
+
+export class PriorityQueue<T> {
+  private _lists: LinkedList<T>[] = [];
+  private _skipped: number[] = [];
+  private _getLevel: (value: T) => number;
+  private _maxSkipped: number;
+
+  constructor(
+    levels: number,
+    getLevel: (value: T) => number,
+    maxSkipped: number
+  ) {
+    for (let i = 0; i < levels; i++) {
+      this._lists.push(new LinkedList<T>());
+      this._skipped.push(0);
+    }
+    this._getLevel = getLevel;
+    this._maxSkipped = maxSkipped;
+  }
+
+  get length() {
+    return this._lists.reduce((length, list) => length + list.length, 0);
+  }
+
+  push(value: T) {
+    this._lists[this._getLevel(value)].push(value);
+  }
+
+  remove(value: T) {
+    return this._lists[this._getLevel(value)].remove(value);
+  }
+
+  shift(): T | undefined {
+    let level = this._lists.findIndex(list => list.length > 0);
+    if (level === -1) return undefined;
+    for (let i = this._lists.length - 1; i > level; i--) {
+      if (this._lists[i].length && this._skipped[i] >= this._maxSkipped) {
+        level = i;
+        break;
+      }
+    }
+    for (let i = level + 1; i < this._lists.length; i++) {
+      if (this._lists[i].length) this._skipped[i] += 1;
+    }
+    this._skipped[level] = 0;
+    return this._lists[level].shift();
+  }
+}
@@ -0,0 +1,39 @@
+import { Readable } from "stream";
+
+export interface ReadableSource {
+  nextBatch(): Promise<any[] | undefined>;
+  kill(): Promise<void>;
+}
+
+export function createReadable(source: ReadableSource): Readable {
+  let reading = false;
+  let destroyed = false;
+  return new Readable({
+    objectMode: true,
+    read() {
+      if (reading) return;
+      reading = true;
+      source.nextBatch().then(
+        batch => {
+          reading = false;
+          if (destroyed) return;
+          if (!batch) {
+            this.push(null);
+            return;
+          }
+          for (const value of batch) {
+            this.push(value === null ? undefined : value);
+          }
+        },
+        err => {
+          reading = false;
+          this.destroy(err);
+        }
+      );
+    },
+    destroy(err, callback) {
+      destroyed = true;
+      source.kill().then(() => callback(err), e => callback(err || e));
+    }
+  });
+}
@@ -0,0 +1,19 @@
+import { ReadableSource } from "./readable";
+
+export function createReadable(source: ReadableSource): ReadableStream {
+  return new ReadableStream({
+    async pull(controller) {
+      const batch = await source.nextBatch();
+      if (!batch) {
+        controller.close();
+        return;
+      }
+      for (const value of batch) {
+        controller.enqueue(value);
+      }
+    },
+    cancel() {
+      return source.kill();
+    }
+  });
+}
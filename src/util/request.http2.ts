@@ -0,0 +1,189 @@
+import {
+  ClientHttp2Session,
+  ClientHttp2Stream,
+  connect,
+  constants,
+  IncomingHttpHeaders
+} from "http2";
+import { Url } from "url";
+import { AbortError } from "../error";
+import { btoa } from "./btoa";
+import { joinPath } from "./joinPath";
+import { ArangojsResponse, RequestFunction, RequestOptions } from "./request";
+import { Errback } from "./types";
+
+function streamError(message: string, code: string) {
+  const err = new Error(message);
+  (err as any).code = code;
+  return err;
+}
+
+function toHeaders(headers: IncomingHttpHeaders) {
+  const result: { [key: string]: string | string[] | undefined } = {};
+  for (const key of Object.keys(headers)) {
+    if (key.charAt(0) !== ":") result[key] = headers[key];
+  }
+  return result;
+}
+
+export function createHttp2Request(
+  baseUrlParts: Url,
+  agentOptions: any,
+  onSettings?: (maxConcurrentStreams: number) => void
+): RequestFunction {
+  const origin = `${baseUrlParts.protocol === "h2:" ? "https" : "http"}://${
+    baseUrlParts.host
+  }`;
+  let session: ClientHttp2Session | undefined;
+  let activeStreams = 0;
+
+  const getSession = () => {
+    if (session && !session.closed && !session.destroyed) return session;
+    const newSession = connect(
+      origin,
+      agentOptions
+    );
+    const reset = () => {
+      if (session === newSession) session = undefined;
+    };
+    newSession.on("close", reset);
+    newSession.on("goaway", reset);
+    newSession.on("error", reset);
+    newSession.on("remoteSettings", settings => {
+      if (onSettings && settings.maxConcurrentStreams) {
+        onSettings(settings.maxConcurrentStreams);
+      }
+    });
+    newSession.unref();
+    session = newSession;
+    return newSession;
+  };
+
+  return Object.assign(
+    function request(
+      {
+        method,
+        url,
+        headers,
+        body,
+        timeout,
+        signal,
+        expectStream
+      }: RequestOptions,
+      cb: Errback<ArangojsResponse>
+    ) {
+      let path = baseUrlParts.pathname
+        ? url.pathname
+          ? joinPath(baseUrlParts.pathname, url.pathname)
+          : baseUrlParts.pathname
+        : url.pathname;
+      const search = url.search
+        ? baseUrlParts.search
+          ? `${baseUrlParts.search}&${url.search.slice(1)}`
+          : url.search
+        : baseUrlParts.search;
+      if (search) path += search;
+      if (body && !headers["content-length"]) {
+        headers["content-length"] = String(Buffer.byteLength(body));
+      }
+      if (!headers["authorization"]) {
+        headers["authorization"] = `Basic ${btoa(
+          baseUrlParts.auth || "root:"
+        )}`;
+      }
+      let called = false;
+      let finished = false;
+      let streaming = false;
+      let onAbort: (() => void) | undefined;
+      let client: ClientHttp2Session | undefined;
+      const finish = () => {
+        if (finished) return;
+        finished = true;
+        if (signal && onAbort) signal.removeEventListener("abort", onAbort);
+        activeStreams -= 1;
+        if (!activeStreams && client && !client.destroyed) client.unref();
+      };
+      const callback: Errback<ArangojsResponse> = (err, res) => {
+        if (called) return;
+        called = true;
+        if (!streaming) finish();
+        cb(err, res);
+      };
+      activeStreams += 1;
+      let req: ClientHttp2Stream;
+      try {
+        client = getSession();
+        client.ref();
+        req = client.request({
+          ...headers,
+          [constants.HTTP2_HEADER_METHOD]: method,
+          [constants.HTTP2_HEADER_PATH]: path
+        });
+      } catch (e) {
+        setTimeout(() => {
+          callback(e);
+        });
+        return;
+      }
+      req.on("response", resHeaders => {
+        const statusCode = Number(resHeaders[constants.HTTP2_HEADER_STATUS]);
+        if (expectStream && statusCode < 400) {
+          streaming = true;
+          req.setTimeout(0);
+          callback(null, ({
+            statusCode,
+            headers: toHeaders(resHeaders),
+            body: req,
+            request: req
+          } as any) as ArangojsResponse);
+          return;
+        }
+        const data: Buffer[] = [];
+        req.on("data", chunk => data.push(chunk as Buffer));
+        req.on("end", () => {
+          callback(null, ({
+            statusCode,
+            headers: toHeaders(resHeaders),
+            body: Buffer.concat(data),
+            request: req
+          } as any) as ArangojsResponse);
+        });
+      });
+      req.on("error", err => callback(err));
+      req.on("close", () => {
+        callback(
+          streamError(
+            `HTTP/2 stream closed with code ${req.rstCode}`,
+            "ECONNRESET"
+          )
+        );
+        finish();
+      });
+      if (signal) {
+        onAbort = () => {
+          if (streaming) {
+            req.close(constants.NGHTTP2_CANCEL);
+            req.destroy(new AbortError());
+            return;
+          }
+          callback(new AbortError());
+          req.close(constants.NGHTTP2_CANCEL);
+        };
+        signal.addEventListener("abort", onAbort);
+      }
+      if (timeout) {
+        req.setTimeout(timeout, () => {
+          callback(streamError("HTTP/2 stream timed out", "ETIMEDOUT"));
+          req.close(constants.NGHTTP2_CANCEL);
+        });
+      }
+      if (body) req.end(body);
+      else req.end();
+    },
+    {
+      close() {
+        if (session) session.close();
+      }
+    }
+  );
+}
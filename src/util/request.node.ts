@@ -6,15 +6,28 @@ import {
   request as httpRequest
 } from "http";
 import { Agent as HttpsAgent, request as httpsRequest } from "https";
+import { Readable } from "stream";
 import { parse as parseUrl, Url } from "url";
+import { createGunzip, createInflate, gunzip, gzip, inflate } from "zlib";
+import { AbortError } from "../error";
 import { btoa } from "./btoa";
 import { joinPath } from "./joinPath";
+import { createHttp2Request } from "./request.http2";
+import { createVstRequest } from "./request.vst";
 import { Errback } from "./types";
 
+export type TransferStats = {
+  requestSize: number;
+  requestEncodedSize: number;
+  responseSize: number;
+  responseEncodedSize: number;
+};
+
 export type ArangojsResponse = IncomingMessage & {
   request: ClientRequest;
   body?: any;
   arangojsHostId?: number;
+  arangojsStats?: TransferStats;
 };
 
 export type ArangojsError = Error & {
@@ -27,7 +40,10 @@ export interface RequestOptions {
   headers: { [key: string]: string };
   body: any;
   expectBinary: boolean;
+  expectStream?: boolean;
   timeout?: number;
+  signal?: AbortSignal;
+  compression?: { threshold: number };
 }
 
 export interface RequestFunction {
@@ -40,12 +56,19 @@ export const isBrowser = false;
 export function createRequest(
   baseUrl: string,
   agentOptions: any,
-  agent: any
+  agent: any,
+  onSettings?: (maxConcurrentStreams: number) => void
 ): RequestFunction {
   const baseUrlParts = parseUrl(baseUrl);
   if (!baseUrlParts.protocol) {
     throw new Error(`Invalid URL (no protocol): ${baseUrl}`);
   }
+  if (baseUrlParts.protocol === "h2:" || baseUrlParts.protocol === "h2c:") {
+    return createHttp2Request(baseUrlParts, agentOptions, onSettings);
+  }
+  if (baseUrlParts.protocol === "vst:" || baseUrlParts.protocol === "vsts:") {
+    return createVstRequest(baseUrlParts, agentOptions);
+  }
   const isTls = baseUrlParts.protocol === "https:";
   let socketPath: string | undefined;
   if (baseUrl.startsWith(`${baseUrlParts.protocol}//unix:`)) {
@@ -72,8 +95,17 @@ export function createRequest(
   }
   return Object.assign(
     function request(
-      { method, url, headers, body, timeout }: RequestOptions,
-      callback: Errback<ArangojsResponse>
+      {
+        method,
+        url,
+        headers,
+        body,
+        timeout,
+        signal,
+        compression,
+        expectStream
+      }: RequestOptions,
+      cb: Errback<ArangojsResponse>
     ) {
       let path = baseUrlParts.pathname
         ? url.pathname
@@ -86,8 +118,8 @@ export function createRequest(
           : url.search
         : baseUrlParts.search;
       if (search) path += search;
-      if (body && !headers["content-length"]) {
-        headers["content-length"] = String(Buffer.byteLength(body));
+      if (compression && !headers["accept-encoding"]) {
+        headers["accept-encoding"] = "gzip, deflate";
       }
       if (!headers["authorization"]) {
         headers["authorization"] = `Basic ${btoa(
@@ -102,22 +134,86 @@ export function createRequest(
         options.port = baseUrlParts.port;
       }
       let called = false;
-      try {
+      let onAbort: (() => void) | undefined;
+      let stream: Readable | undefined;
+      const callback: Errback<ArangojsResponse> = (err, res) => {
+        if (signal && onAbort) signal.removeEventListener("abort", onAbort);
+        cb(err, res);
+      };
+      const requestSize = body ? Buffer.byteLength(body) : 0;
+      const send = (body: any, encodingHeaders?: { [key: string]: string }) => {
+        const requestHeaders: { [key: string]: string } = {
+          ...headers,
+          ...encodingHeaders
+        };
+        if (body && !requestHeaders["content-length"]) {
+          requestHeaders["content-length"] = String(Buffer.byteLength(body));
+        }
         const req = (isTls ? httpsRequest : httpRequest)(
-          options,
+          { ...options, headers: requestHeaders },
           (res: IncomingMessage) => {
+            const encoding = res.headers["content-encoding"];
+            if (expectStream && res.statusCode! < 400) {
+              if (called) return;
+              called = true;
+              req.setTimeout(0);
+              const result = res as ArangojsResponse;
+              result.request = req;
+              stream =
+                encoding === "gzip"
+                  ? res.pipe(createGunzip())
+                  : encoding === "deflate"
+                  ? res.pipe(createInflate())
+                  : res;
+              if (signal && onAbort) {
+                const removeAbortListener = () =>
+                  signal.removeEventListener("abort", onAbort!);
+                stream.once("end", removeAbortListener);
+                stream.once("error", removeAbortListener);
+                stream.once("close", removeAbortListener);
+              }
+              result.body = stream;
+              cb(null, result);
+              return;
+            }
             const data: Buffer[] = [];
             res.on("data", chunk => data.push(chunk as Buffer));
             res.on("end", () => {
               const result = res as ArangojsResponse;
               result.request = req;
-              result.body = Buffer.concat(data);
-              if (called) return;
-              called = true;
-              callback(null, result);
+              const raw = Buffer.concat(data);
+              const finish = (err: Error | null, decoded?: Buffer) => {
+                if (called) return;
+                called = true;
+                if (err) {
+                  callback(err);
+                  return;
+                }
+                result.body = decoded;
+                result.arangojsStats = {
+                  requestSize,
+                  requestEncodedSize: body ? Buffer.byteLength(body) : 0,
+                  responseSize: decoded!.length,
+                  responseEncodedSize: raw.length
+                };
+                callback(null, result);
+              };
+              if (encoding === "gzip") gunzip(raw, finish);
+              else if (encoding === "deflate") inflate(raw, finish);
+              else finish(null, raw);
             });
           }
         );
+        if (signal) {
+          onAbort = () => {
+            req.abort();
+            if (stream) stream.destroy(new AbortError());
+            if (called) return;
+            called = true;
+            callback(new AbortError());
+          };
+          signal.addEventListener("abort", onAbort);
+        }
         if (timeout) {
           req.setTimeout(timeout);
         }
@@ -133,12 +229,42 @@ export function createRequest(
         });
         if (body) req.write(body);
         req.end();
-      } catch (e) {
+      };
+      const fail = (e: Error) => {
         if (called) return;
         called = true;
         setTimeout(() => {
           callback(e);
         });
+      };
+      try {
+        if (
+          !compression ||
+          !body ||
+          requestSize < compression.threshold ||
+          headers["content-encoding"]
+        ) {
+          send(body);
+          return;
+        }
+        gzip(body, (err, compressed) => {
+          if (err) {
+            fail(err);
+          } else if (signal && signal.aborted) {
+            fail(new AbortError());
+          } else {
+            try {
+              send(compressed, {
+                "content-encoding": "gzip",
+                "content-length": String(compressed.length)
+              });
+            } catch (e) {
+              fail(e);
+            }
+          }
+        });
+      } catch (e) {
+        fail(e);
       }
     },
     {
@@ -0,0 +1,305 @@
+import { connect as netConnect, Socket } from "net";
+import { parse as parseQuerystring } from "querystring";
+import { PassThrough } from "stream";
+import { connect as tlsConnect } from "tls";
+import { Url } from "url";
+import { AbortError } from "../error";
+import { atob } from "./atob";
+import { btoa } from "./btoa";
+import { joinPath } from "./joinPath";
+import { ArangojsResponse, RequestFunction, RequestOptions } from "./request";
+import { Errback } from "./types";
+import { decodeVPack, encodeVPack, getByteSize } from "./vpack";
+
+const HANDSHAKE = "VST/1.1\r\n\r\n";
+const CHUNK_HEADER_SIZE = 24;
+const MAX_CHUNK_SIZE = 30000;
+const MIME_VPACK = "application/x-velocypack";
+const MIME_JSON = /\/(json|javascript)(\W|$)/;
+const REQUEST_TYPES: { [method: string]: number } = {
+  DELETE: 0,
+  GET: 1,
+  POST: 2,
+  PUT: 3,
+  HEAD: 4,
+  PATCH: 5,
+  OPTIONS: 6
+};
+const MESSAGE_REQUEST = 1;
+const MESSAGE_AUTH = 1000;
+
+type Message = {
+  callback: Errback<Buffer>;
+  chunks: Buffer[];
+  remaining?: number;
+};
+
+function connectionError(message: string, code: string) {
+  const err = new Error(message);
+  (err as any).code = code;
+  return err;
+}
+
+function writeUInt64(buf: Buffer, value: number, offset: number) {
+  buf.writeUInt32LE(value % 0x100000000, offset);
+  buf.writeUInt32LE(Math.floor(value / 0x100000000), offset + 4);
+}
+
+function readUInt64(buf: Buffer, offset: number) {
+  return buf.readUInt32LE(offset) + buf.readUInt32LE(offset + 4) * 0x100000000;
+}
+
+function createChunks(id: number, message: Buffer) {
+  const count = Math.max(1, Math.ceil(message.length / MAX_CHUNK_SIZE));
+  const chunks: Buffer[] = [];
+  for (let i = 0; i < count; i++) {
+    const data = message.slice(i * MAX_CHUNK_SIZE, (i + 1) * MAX_CHUNK_SIZE);
+    const header = Buffer.alloc(CHUNK_HEADER_SIZE);
+    header.writeUInt32LE(CHUNK_HEADER_SIZE + data.length, 0);
+    header.writeUInt32LE(i === 0 ? (count << 1) | 1 : i << 1, 4);
+    writeUInt64(header, id, 8);
+    writeUInt64(header, message.length, 16);
+    chunks.push(header, data);
+  }
+  return chunks;
+}
+
+function getAuthMessage(authorization: string) {
+  const [scheme, credentials] = authorization.split(" ");
+  if (scheme.toLowerCase() === "bearer") {
+    return encodeVPack([1, MESSAGE_AUTH, "jwt", credentials]);
+  }
+  const decoded = atob(credentials);
+  const i = decoded.indexOf(":");
+  return encodeVPack([
+    1,
+    MESSAGE_AUTH,
+    "plain",
+    decoded.slice(0, i),
+    decoded.slice(i + 1)
+  ]);
+}
+
+function toVPackBody(body: any, headers: { [key: string]: string }) {
+  const contentType = headers["content-type"];
+  if (typeof body === "string" && contentType && contentType.match(MIME_JSON)) {
+    headers["content-type"] = MIME_VPACK;
+    return encodeVPack(JSON.parse(body));
+  }
+  return Buffer.isBuffer(body) ? body : Buffer.from(String(body));
+}
+
+export function createVstRequest(
+  baseUrlParts: Url,
+  agentOptions: any
+): RequestFunction {
+  const isTls = baseUrlParts.protocol === "vsts:";
+  const port = Number(baseUrlParts.port) || 8529;
+  const host = baseUrlParts.hostname || "localhost";
+  const messages = new Map<number, Message>();
+  let socket: Socket | undefined;
+  let authorization: string | undefined;
+  let nextId = 1;
+  let buffer = Buffer.alloc(0);
+
+  const onData = (data: Buffer) => {
+    buffer = Buffer.concat([buffer, data]);
+    while (buffer.length >= CHUNK_HEADER_SIZE) {
+      const length = buffer.readUInt32LE(0);
+      if (buffer.length < length) break;
+      const chunkX = buffer.readUInt32LE(4);
+      const id = readUInt64(buffer, 8);
+      const chunk = buffer.slice(CHUNK_HEADER_SIZE, length);
+      buffer = buffer.slice(length);
+      const message = messages.get(id);
+      if (!message) continue;
+      if (chunkX & 1) message.remaining = chunkX >> 1;
+      message.chunks[chunkX & 1 ? 0 : chunkX >> 1] = chunk;
+      if (message.chunks.filter(Boolean).length === message.remaining) {
+        messages.delete(id);
+        message.callback(null, Buffer.concat(message.chunks));
+      }
+    }
+  };
+
+  const onClose = (err?: Error) => {
+    socket = undefined;
+    authorization = undefined;
+    buffer = Buffer.alloc(0);
+    const pending = Array.from(messages.values());
+    messages.clear();
+    for (const message of pending) {
+      message.callback(
+        err || connectionError("VelocyStream connection closed", "ECONNRESET")
+      );
+    }
+  };
+
+  const getSocket = () => {
+    if (socket) return socket;
+    const newSocket = isTls
+      ? tlsConnect({ ...agentOptions, host, port })
+      : netConnect({ host, port });
+    newSocket.on("data", onData);
+    newSocket.on("error", err => {
+      if (socket === newSocket) onClose(err);
+    });
+    newSocket.on("close", () => {
+      if (socket === newSocket) onClose();
+    });
+    newSocket.setNoDelay(true);
+    newSocket.unref();
+    newSocket.write(HANDSHAKE);
+    socket = newSocket;
+    return newSocket;
+  };
+
+  const send = (message: Buffer, callback: Errback<Buffer>) => {
+    const id = nextId++;
+    messages.set(id, { callback, chunks: [] });
+    const target = getSocket();
+    target.ref();
+    for (const chunk of createChunks(id, message)) target.write(chunk);
+    return id;
+  };
+
+  const release = () => {
+    if (!messages.size && socket) socket.unref();
+  };
+
+  const authenticate = (auth: string) => {
+    if (authorization === auth) return;
+    authorization = auth;
+    const authId = send(getAuthMessage(auth), (err, data) => {
+      if (!err && decodeVPack(data!)[2] < 400) {
+        release();
+        return;
+      }
+      if (authorization === auth) authorization = undefined;
+      for (const [id, message] of Array.from(messages.entries())) {
+        if (id < authId) continue;
+        messages.delete(id);
+        message.callback(err, data);
+      }
+      release();
+    });
+  };
+
+  return Object.assign(
+    function request(
+      {
+        method,
+        url,
+        headers,
+        body,
+        timeout,
+        signal,
+        expectStream
+      }: RequestOptions,
+      cb: Errback<ArangojsResponse>
+    ) {
+      let path = baseUrlParts.pathname
+        ? url.pathname
+          ? joinPath(baseUrlParts.pathname, url.pathname)
+          : baseUrlParts.pathname
+        : url.pathname || "/";
+      let database = "_system";
+      const match = path.match(/^\/_db\/([^/]+)(\/.*)?$/);
+      if (match) {
+        database = decodeURIComponent(match[1]);
+        path = match[2] || "/";
+      }
+      const parameters: { [key: string]: string } = {};
+      const search = [baseUrlParts.search, url.search]
+        .filter(Boolean)
+        .map(search => search!.slice(1))
+        .join("&");
+      const query = parseQuerystring(search);
+      for (const key of Object.keys(query)) {
+        const value = query[key];
+        parameters[key] = Array.isArray(value) ? value[0] : value!;
+      }
+      const meta = { ...headers };
+      delete meta["content-length"];
+      delete meta["authorization"];
+      const payload = body ? toVPackBody(body, meta) : undefined;
+      let called = false;
+      let id: number | undefined;
+      let timer: any;
+      let onAbort: (() => void) | undefined;
+      const callback: Errback<ArangojsResponse> = (err, res) => {
+        if (called) return;
+        called = true;
+        if (id !== undefined) messages.delete(id);
+        if (timer) clearTimeout(timer);
+        if (signal && onAbort) signal.removeEventListener("abort", onAbort);
+        release();
+        cb(err, res);
+      };
+      try {
+        authenticate(
+          headers["authorization"] ||
+            `Basic ${btoa(baseUrlParts.auth || "root:")}`
+        );
+        const message = encodeVPack([
+          1,
+          MESSAGE_REQUEST,
+          database,
+          REQUEST_TYPES[method.toUpperCase()],
+          path,
+          parameters,
+          meta
+        ]);
+        id = send(
+          payload ? Buffer.concat([message, payload]) : message,
+          (err, data) => {
+            if (err) {
+              callback(err);
+              return;
+            }
+            const headerSize = getByteSize(data!);
+            const [, , statusCode, meta] = decodeVPack(data!);
+            const resHeaders = { ...meta };
+            const resBody = data!.slice(headerSize);
+            if (resBody.length && !resHeaders["content-type"]) {
+              resHeaders["content-type"] = MIME_VPACK;
+            }
+            let stream: PassThrough | undefined;
+            if (expectStream && statusCode < 400) {
+              stream = new PassThrough();
+              stream.end(resBody);
+            }
+            callback(null, ({
+              statusCode,
+              headers: resHeaders,
+              body: stream || resBody
+            } as any) as ArangojsResponse);
+          }
+        );
+      } catch (e) {
+        setTimeout(() => {
+          callback(e);
+        });
+        return;
+      }
+      if (signal) {
+        onAbort = () => {
+          callback(new AbortError());
+        };
+        signal.addEventListener("abort", onAbort);
+      }
+      if (timeout) {
+        timer = setTimeout(() => {
+          callback(
+            connectionError("VelocyStream request timed out", "ETIMEDOUT")
+          );
+        }, timeout);
+      }
+    },
+    {
+      close() {
+        if (socket) socket.end();
+      }
+    }
+  );
+}
@@ -1,4 +1,5 @@
 import { format as formatUrl, parse as parseUrl } from "url";
+import { AbortError } from "../error";
 import { joinPath } from "./joinPath";
 import {
   ArangojsError,
@@ -27,7 +28,15 @@ export function createRequest(baseUrl: string, agentOptions: any) {
     "maxSockets"
   ]);
   return function request(
-    { method, url, headers, body, timeout, expectBinary }: RequestOptions,
+    {
+      method,
+      url,
+      headers,
+      body,
+      timeout,
+      expectBinary,
+      signal
+    }: RequestOptions,
     cb: Errback<ArangojsResponse>
   ) {
     const urlParts = {
@@ -47,8 +56,10 @@ export function createRequest(baseUrl: string, agentOptions: any) {
       headers["authorization"] = `Basic ${btoa(auth || "root:")}`;
     }
 
+    let onAbort: (() => void) | undefined;
     let callback: Errback<ArangojsResponse> = (err, res) => {
       callback = () => undefined;
+      if (signal && onAbort) signal.removeEventListener("abort", onAbort);
       cb(err, res);
     };
     const req = xhr(
@@ -74,5 +85,12 @@ export function createRequest(baseUrl: string, agentOptions: any) {
         }
       }
     );
+    if (signal) {
+      onAbort = () => {
+        req.abort();
+        callback(new AbortError());
+      };
+      signal.addEventListener("abort", onAbort);
+    }
   };
 }
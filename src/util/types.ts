@@ -141,6 +141,7 @@ export type Edge<T extends object = any> = Document<T> & {
 };
 
 export interface InsertOptions {
+  signal?: AbortSignal;
   waitForSync?: boolean;
   silent?: boolean;
   returnNew?: boolean;
@@ -150,6 +151,13 @@ export interface ReplaceOptions extends InsertOptions {
   rev?: string;
   overwrite?: boolean;
   returnOld?: boolean;
+  ignoreRevs?: boolean;
+}
+
+export interface UpdateWithRetryOptions {
+  signal?: AbortSignal;
+  waitForSync?: boolean;
+  retries?: number;
 }
 
 export interface UpdateOptions extends ReplaceOptions {
@@ -165,6 +173,7 @@ export interface UpdateByExampleOptions {
 }
 
 export interface RemoveOptions {
+  signal?: AbortSignal;
   rev?: string;
   waitForSync?: boolean;
   overwrite?: boolean;
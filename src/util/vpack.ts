@@ -0,0 +1,296 @@
+const ATTRIBUTE_NAMES: { [key: number]: string } = {
+  1: "_key",
+  2: "_rev",
+  3: "_id",
+  4: "_from",
+  5: "_to"
+};
+
+const WIDTHS = [1, 2, 4, 8];
+const MAX_SMALL_INT = 9;
+const MIN_SMALL_INT = -6;
+const MAX_SHORT_STRING = 126;
+const MAX_INT = Math.pow(2, 47);
+
+function readUInt(buf: Buffer, offset: number, width: number) {
+  let value = 0;
+  for (let i = width - 1; i >= 0; i--) {
+    value = value * 256 + buf[offset + i];
+  }
+  return value;
+}
+
+function readInt(buf: Buffer, offset: number, width: number) {
+  const value = readUInt(buf, offset, width);
+  const max = Math.pow(2, 8 * width);
+  return value >= max / 2 ? value - max : value;
+}
+
+function writeUInt(value: number, width: number) {
+  const buf = Buffer.alloc(width);
+  for (let i = 0; i < width; i++) {
+    buf[i] = value % 256;
+    value = Math.floor(value / 256);
+  }
+  return buf;
+}
+
+function readVarUInt(buf: Buffer, offset: number, reverse: boolean) {
+  let value = 0;
+  let factor = 1;
+  let length = 0;
+  while (true) {
+    const byte = buf[reverse ? offset - length : offset + length];
+    length += 1;
+    value += (byte & 0x7f) * factor;
+    factor *= 128;
+    if (!(byte & 0x80)) break;
+  }
+  return { value, length };
+}
+
+function getWidth(value: number) {
+  let width = 1;
+  while (value >= Math.pow(2, 8 * width)) width += 1;
+  return width;
+}
+
+export function getByteSize(buf: Buffer, offset: number = 0): number {
+  const type = buf[offset];
+  if (type === 0x01 || type === 0x0a) return 1;
+  if (type >= 0x02 && type <= 0x09) {
+    return readUInt(buf, offset + 1, WIDTHS[(type - 0x02) % 4]);
+  }
+  if (type >= 0x0b && type <= 0x12) {
+    return readUInt(buf, offset + 1, WIDTHS[(type - 0x0b) % 4]);
+  }
+  if (type === 0x13 || type === 0x14) {
+    return readVarUInt(buf, offset + 1, false).value;
+  }
+  if ((type >= 0x17 && type <= 0x1a) || type === 0x1e || type === 0x1f) {
+    return 1;
+  }
+  if (type === 0x1b || type === 0x1c || type === 0x1d) return 9;
+  if (type >= 0x20 && type <= 0x27) return 1 + type - 0x1f;
+  if (type >= 0x28 && type <= 0x2f) return 1 + type - 0x27;
+  if (type >= 0x30 && type <= 0x3f) return 1;
+  if (type >= 0x40 && type <= 0xbe) return 1 + type - 0x40;
+  if (type === 0xbf) return 9 + readUInt(buf, offset + 1, 8);
+  if (type >= 0xc0 && type <= 0xc7) {
+    const width = type - 0xbf;
+    return 1 + width + readUInt(buf, offset + 1, width);
+  }
+  if (type >= 0xf0 && type <= 0xf3) return 1 + WIDTHS[type - 0xf0];
+  throw new Error(`Unsupported VelocyPack type: 0x${type.toString(16)}`);
+}
+
+function skipPadding(buf: Buffer, offset: number, end: number) {
+  while (offset < end && buf[offset] === 0) offset += 1;
+  return offset;
+}
+
+function readItems(buf: Buffer, offset: number, isObject: boolean) {
+  const type = buf[offset];
+  const size = getByteSize(buf, offset);
+  const end = offset + size;
+  let start: number;
+  let count: number;
+  if (type === 0x13 || type === 0x14) {
+    start = offset + 1 + readVarUInt(buf, offset + 1, false).length;
+    count = readVarUInt(buf, end - 1, true).value;
+  } else if (type >= 0x02 && type <= 0x05) {
+    const width = WIDTHS[type - 0x02];
+    start = skipPadding(buf, offset + 1 + width, end);
+    count = start < end ? (end - start) / getByteSize(buf, start) : 0;
+  } else {
+    const width = WIDTHS[(type - (isObject ? 0x0b : 0x06)) % 4];
+    if (width === 8) {
+      count = readUInt(buf, end - 8, 8);
+      start = offset + 9;
+    } else {
+      count = readUInt(buf, offset + 1 + width, width);
+      start = offset + 1 + 2 * width;
+    }
+    start = skipPadding(buf, start, end);
+  }
+  const positions: number[] = [];
+  for (let i = 0; i < count * (isObject ? 2 : 1); i++) {
+    positions.push(start);
+    start += getByteSize(buf, start);
+  }
+  return positions;
+}
+
+function decodeValue(buf: Buffer, offset: number): any {
+  const type = buf[offset];
+  if (type === 0x01) return [];
+  if (type === 0x0a) return {};
+  if ((type >= 0x02 && type <= 0x09) || type === 0x13) {
+    return readItems(buf, offset, false).map(pos => decodeValue(buf, pos));
+  }
+  if ((type >= 0x0b && type <= 0x12) || type === 0x14) {
+    const positions = readItems(buf, offset, true);
+    const result: { [key: string]: any } = {};
+    for (let i = 0; i < positions.length; i += 2) {
+      let key = decodeValue(buf, positions[i]);
+      if (typeof key === "number") key = ATTRIBUTE_NAMES[key];
+      result[key] = decodeValue(buf, positions[i + 1]);
+    }
+    return result;
+  }
+  if (type === 0x18) return null;
+  if (type === 0x19) return false;
+  if (type === 0x1a) return true;
+  if (type === 0x1b) return buf.readDoubleLE(offset + 1);
+  if (type === 0x1c) return new Date(readInt(buf, offset + 1, 8));
+  if (type >= 0x20 && type <= 0x27) {
+    return readInt(buf, offset + 1, type - 0x1f);
+  }
+  if (type >= 0x28 && type <= 0x2f) {
+    return readUInt(buf, offset + 1, type - 0x27);
+  }
+  if (type >= 0x30 && type <= 0x39) return type - 0x30;
+  if (type >= 0x3a && type <= 0x3f) return type - 0x40;
+  if (type >= 0x40 && type <= 0xbe) {
+    return buf.toString("utf-8", offset + 1, offset + 1 + type - 0x40);
+  }
+  if (type === 0xbf) {
+    const length = readUInt(buf, offset + 1, 8);
+    return buf.toString("utf-8", offset + 9, offset + 9 + length);
+  }
+  if (type >= 0xc0 && type <= 0xc7) {
+    const width = type - 0xbf;
+    const start = offset + 1 + width;
+    return buf.slice(start, start + readUInt(buf, offset + 1, width));
+  }
+  throw new Error(`Unsupported VelocyPack type: 0x${type.toString(16)}`);
+}
+
+function encodeNumber(value: number) {
+  if (!Number.isInteger(value) || Math.abs(value) >= MAX_INT) {
+    const buf = Buffer.alloc(9);
+    buf[0] = 0x1b;
+    buf.writeDoubleLE(value, 1);
+    return buf;
+  }
+  if (value >= 0 && value <= MAX_SMALL_INT) return Buffer.from([0x30 + value]);
+  if (value < 0 && value >= MIN_SMALL_INT) return Buffer.from([0x40 + value]);
+  if (value > 0) {
+    const width = getWidth(value);
+    return Buffer.concat([
+      Buffer.from([0x27 + width]),
+      writeUInt(value, width)
+    ]);
+  }
+  const width = getWidth(-value * 2 - 1);
+  return Buffer.concat([
+    Buffer.from([0x1f + width]),
+    writeUInt(Math.pow(2, 8 * width) + value, width)
+  ]);
+}
+
+function encodeString(value: string) {
+  const data = Buffer.from(value, "utf-8");
+  if (data.length <= MAX_SHORT_STRING) {
+    return Buffer.concat([Buffer.from([0x40 + data.length]), data]);
+  }
+  return Buffer.concat([Buffer.from([0xbf]), writeUInt(data.length, 8), data]);
+}
+
+function encodeBinary(value: Buffer) {
+  const width = getWidth(value.length);
+  return Buffer.concat([
+    Buffer.from([0xbf + width]),
+    writeUInt(value.length, width),
+    value
+  ]);
+}
+
+function encodeCompound(
+  items: Buffer[],
+  offsets: number[],
+  count: number,
+  isObject: boolean
+) {
+  const payload = items.reduce((length, item) => length + item.length, 0);
+  const uniform =
+    !isObject && items.every(item => item.length === items[0].length);
+  for (const width of WIDTHS) {
+    const max = Math.pow(2, 8 * width);
+    const headerSize = 1 + (width === 8 ? 8 : 2 * width);
+    const size = uniform
+      ? 1 + width + payload
+      : headerSize + payload + count * width + (width === 8 ? 8 : 0);
+    if (size >= max || count >= max) continue;
+    const typeOffset = WIDTHS.indexOf(width);
+    if (uniform) {
+      return Buffer.concat([
+        Buffer.from([0x02 + typeOffset]),
+        writeUInt(size, width),
+        ...items
+      ]);
+    }
+    const parts = [
+      Buffer.from([(isObject ? 0x0b : 0x06) + typeOffset]),
+      writeUInt(size, width)
+    ];
+    if (width !== 8) parts.push(writeUInt(count, width));
+    parts.push(...items);
+    for (const offset of offsets) {
+      parts.push(writeUInt(headerSize + offset, width));
+    }
+    if (width === 8) parts.push(writeUInt(count, 8));
+    return Buffer.concat(parts);
+  }
+  throw new Error("Value too large to be encoded as VelocyPack");
+}
+
+function encodeValue(value: any): Buffer | undefined {
+  if (value === null) return Buffer.from([0x18]);
+  if (value === undefined || typeof value === "function") return undefined;
+  if (typeof value === "boolean") return Buffer.from([value ? 0x1a : 0x19]);
+  if (typeof value === "number") {
+    return isFinite(value) ? encodeNumber(value) : Buffer.from([0x18]);
+  }
+  if (typeof value === "string") return encodeString(value);
+  if (Buffer.isBuffer(value)) return encodeBinary(value);
+  if (typeof value.toJSON === "function") return encodeValue(value.toJSON());
+  if (Array.isArray(value)) {
+    if (!value.length) return Buffer.from([0x01]);
+    const items = value.map(item => encodeValue(item) || Buffer.from([0x18]));
+    const offsets: number[] = [];
+    let offset = 0;
+    for (const item of items) {
+      offsets.push(offset);
+      offset += item.length;
+    }
+    return encodeCompound(items, offsets, items.length, false);
+  }
+  const items: Buffer[] = [];
+  const keyOffsets: { name: Buffer; offset: number }[] = [];
+  let offset = 0;
+  for (const key of Object.keys(value)) {
+    const encoded = encodeValue(value[key]);
+    if (!encoded) continue;
+    const name = encodeString(key);
+    keyOffsets.push({ name: Buffer.from(key, "utf-8"), offset });
+    items.push(name, encoded);
+    offset += name.length + encoded.length;
+  }
+  if (!keyOffsets.length) return Buffer.from([0x0a]);
+  keyOffsets.sort((a, b) => Buffer.compare(a.name, b.name));
+  return encodeCompound(
+    items,
+    keyOffsets.map(entry => entry.offset),
+    keyOffsets.length,
+    true
+  );
+}
+
+export function encodeVPack(value: any): Buffer {
+  return encodeValue(value) || Buffer.from([0x18]);
+}
+
+export function decodeVPack(buf: Buffer, offset: number = 0): any {
+  return decodeValue(buf, offset);
+}